@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { CaseStudy } from "@/lib/types";
+import { publishLiveCaseStudies, readLiveDatasetFromBlob, readLiveManifestFromBlob } from "@/lib/blobCaseStudies";
+import { CURRENT_SCHEMA_VERSION, migrateCaseStudies, snapshotSchemaVersion, toSnapshotDocument } from "@/lib/datasetSchema";
+import { datasetStoreConfigError } from "@/lib/datasetStore";
+import { makeRunId } from "@/lib/runId";
+
+/**
+ * Migrate src/data/case-studies.json to the current dataset schema (see src/lib/datasetSchema.ts).
+ * Run via `npm run migrate:dataset -- [--check] [--publish]`:
+ * --check    only report; exit 1 when the file needs migrating
+ * --publish  also re-publish the live snapshot as a new run when it was written with an older schema
+ */
+
+const ROOT = process.cwd();
+const DATA_PATH = path.join(ROOT, "src", "data", "case-studies.json");
+
+function migrateSeedFile(check: boolean) {
+  const raw: unknown = JSON.parse(fs.readFileSync(DATA_PATH, "utf8"));
+  const version = snapshotSchemaVersion(raw);
+  if (version === null) throw new Error(`${DATA_PATH} is neither a snapshot document nor an array.`);
+  if (version >= CURRENT_SCHEMA_VERSION) {
+    console.log(`case-studies.json: schema ${version}, up to date.`);
+    return true;
+  }
+
+  const items = Array.isArray(raw) ? (raw as CaseStudy[]) : (raw as { items: CaseStudy[] }).items;
+  const { items: migrated, applied } = migrateCaseStudies(items, version);
+  for (const step of applied) console.log(`  v${step.from} -> v${step.from + 1}: ${step.description}`);
+  if (check) {
+    console.log(`case-studies.json: schema ${version}, needs migrating to ${CURRENT_SCHEMA_VERSION}.`);
+    return false;
+  }
+  fs.writeFileSync(DATA_PATH, `${JSON.stringify(toSnapshotDocument(migrated), null, 2)}\n`);
+  console.log(`case-studies.json: migrated ${migrated.length} entries from schema ${version} to ${CURRENT_SCHEMA_VERSION}.`);
+  return true;
+}
+
+async function republishLive() {
+  const storeError = datasetStoreConfigError();
+  if (storeError) throw new Error(storeError);
+
+  const manifest = await readLiveManifestFromBlob();
+  if (!manifest) {
+    console.log("Live dataset: none published yet.");
+    return;
+  }
+  const version = manifest.schemaVersion ?? 1;
+  if (version >= CURRENT_SCHEMA_VERSION) {
+    console.log(`Live dataset: ${manifest.runId} has schema ${version}, up to date.`);
+    return;
+  }
+
+  // Readers migrate on the fly, so the live items are already in the current schema.
+  const live = await readLiveDatasetFromBlob({ fresh: true });
+  if (!live) throw new Error(`Live snapshot not found: ${manifest.runId}`);
+  const runId = makeRunId();
+  await publishLiveCaseStudies({
+    base: live,
+    added: [],
+    runId,
+    runLog: { runId, migration: { fromRunId: live.runId, fromSchema: version, toSchema: CURRENT_SCHEMA_VERSION } },
+  });
+  console.log(`Live dataset: re-published ${live.runId} (schema ${version}) as ${runId} (schema ${CURRENT_SCHEMA_VERSION}).`);
+}
+
+async function main() {
+  const args = new Set(process.argv.slice(2));
+  const ok = migrateSeedFile(args.has("--check"));
+  if (args.has("--publish") && !args.has("--check")) await republishLive();
+  if (!ok) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
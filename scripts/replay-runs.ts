@@ -0,0 +1,32 @@
+import { listLiveRunIds } from "@/lib/blobCaseStudies";
+import { formatRunReplay, replayRun } from "@/lib/runReplay";
+
+/**
+ * Replay past pipeline runs from their Blob audit artifacts with the current policy code and
+ * print what would be added / removed compared with what each run actually added.
+ * Run via `npm run replay:runs -- [N | <runId>...]` (default: last 5 runs).
+ */
+
+async function main() {
+  const args = process.argv.slice(2);
+  const count = args.length === 1 && /^\d+$/.test(args[0]) ? Number(args[0]) : 5;
+  const runIds = args.length && !/^\d+$/.test(args[0]) ? args : await listLiveRunIds(count);
+
+  if (!runIds.length) {
+    console.error("No runs found under case-studies/live-manifest/.");
+    process.exit(1);
+  }
+
+  let changed = 0;
+  for (const runId of runIds) {
+    const replay = await replayRun(runId);
+    if (replay.ok && (replay.wouldAdd.length || replay.wouldRemove.length)) changed++;
+    console.log(formatRunReplay(replay).join("\n"));
+  }
+  console.log(`\n${changed} of ${runIds.length} run(s) would change.`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
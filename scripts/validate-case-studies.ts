@@ -0,0 +1,42 @@
+import fs from "node:fs";
+import path from "node:path";
+import { validateCaseStudies } from "@/lib/caseStudyPolicy";
+import { CURRENT_SCHEMA_VERSION, snapshotSchemaVersion } from "@/lib/datasetSchema";
+
+/**
+ * Validate src/data/case-studies.json with the same policy the cron pipelines use.
+ * Run via `npm run validate:case-studies`.
+ */
+
+const ROOT = process.cwd();
+const DATA_PATH = path.join(ROOT, "src", "data", "case-studies.json");
+
+let data: unknown;
+try {
+  data = JSON.parse(fs.readFileSync(DATA_PATH, "utf8"));
+} catch {
+  console.error(`Invalid JSON: ${DATA_PATH}`);
+  process.exit(1);
+}
+
+const schemaVersion = snapshotSchemaVersion(data);
+if (schemaVersion === null) {
+  console.error("Root must be { schemaVersion, items: [...] }.");
+  process.exit(1);
+}
+if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+  console.error(`schemaVersion ${schemaVersion} is older than ${CURRENT_SCHEMA_VERSION}. Run npm run migrate:dataset.`);
+  process.exit(1);
+}
+
+const items = (data as { items: unknown[] }).items;
+const issues = validateCaseStudies(items);
+for (const issue of issues) {
+  console.error(`${issue.path} ${issue.message} [${issue.reason}]`);
+}
+
+if (issues.length) {
+  process.exitCode = 1;
+} else {
+  console.log(`OK: ${items.length} case studies validated.`);
+}
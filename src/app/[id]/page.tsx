@@ -1,16 +1,33 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import rawCaseStudies from "@/data/case-studies.json";
-import type { CaseStudy } from "@/lib/types";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
 import { readLiveCaseStudiesFromBlob } from "@/lib/blobCaseStudies";
+import { readProofHealth, type ProofHealthStatus } from "@/lib/blobProofHealth";
 import MoneyText from "@/components/MoneyText";
 import MediaEmbed from "@/components/MediaEmbed";
+import CaseStudyHistory from "@/components/CaseStudyHistory";
 import { isEmbeddableUrl } from "@/lib/mediaUtils";
+import type { ProofCheckStatus } from "@/lib/types";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+const PROOF_CHECK_LABELS: Record<ProofCheckStatus, string> = {
+  found: "Excerpt found on page",
+  "not-found": "Excerpt not found on page",
+  "client-rendered": "Page renders with JavaScript; excerpt not checkable",
+  "fetch-failed": "Page could not be fetched",
+};
+
+const PROOF_HEALTH_LABELS: Record<ProofHealthStatus, string> = {
+  ok: "online",
+  moved: "link moved",
+  "excerpt-missing": "excerpt no longer on page",
+  gone: "page removed",
+  unreachable: "unreachable",
+};
+
 function formatVerifiedOn(dateIso: string) {
   // ISO YYYY-MM-DD treated as UTC midnight.
   const d = new Date(`${dateIso}T00:00:00Z`);
@@ -29,12 +46,13 @@ export async function generateMetadata({
 }): Promise<Metadata> {
   const { id } = await params;
   const fromBlob = await readLiveCaseStudiesFromBlob();
-  const local = rawCaseStudies as unknown as CaseStudy[];
+  const local = seedCaseStudies();
   const cs = (fromBlob ?? local).find((x) => x.id === id);
   if (!cs) return {};
   return {
     title: `${cs.title} | AgentProfit.ai`,
     description: cs.summary,
+    ...(cs.retracted ? { robots: { index: false } } : {}),
   };
 }
 
@@ -45,9 +63,10 @@ export default async function CaseStudyPage({
 }) {
   const { id } = await params;
   const fromBlob = await readLiveCaseStudiesFromBlob();
-  const local = rawCaseStudies as unknown as CaseStudy[];
+  const local = seedCaseStudies();
   const cs = (fromBlob ?? local).find((x) => x.id === id);
   if (!cs) notFound();
+  const health = (await readProofHealth()).entries[cs.id];
 
   return (
     <div className="min-h-screen bg-zinc-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-50">
@@ -68,6 +87,42 @@ export default async function CaseStudyPage({
           </div>
         </div>
 
+        {cs.retracted ? (
+          <div
+            className="mt-6 rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-200"
+            role="status"
+          >
+            <div className="font-semibold">
+              {cs.retracted.mergedInto ? "Merged into another case study" : "Retracted"} on{" "}
+              {formatVerifiedOn(cs.retracted.retractedAt.slice(0, 10))}
+            </div>
+            <div className="mt-1 leading-6">{cs.retracted.reason}</div>
+            {cs.retracted.mergedInto ? (
+              <Link
+                href={`/${cs.retracted.mergedInto}`}
+                className="mt-2 inline-block font-semibold underline-offset-2 hover:underline"
+              >
+                See the current entry →
+              </Link>
+            ) : null}
+          </div>
+        ) : null}
+
+        {health?.flag && !cs.retracted ? (
+          <div
+            className="mt-6 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200"
+            role="status"
+          >
+            <div className="font-semibold">
+              Some proof has disappeared since {formatVerifiedOn(health.flag.openedAt.slice(0, 10))}
+            </div>
+            <div className="mt-1 leading-6">
+              {health.flag.urls.length === 1 ? "1 source" : `${health.flag.urls.length} sources`} could not be
+              confirmed at the last check.
+            </div>
+          </div>
+        ) : null}
+
         <header className="mt-6">
           <h1 className="text-3xl font-black tracking-tight text-zinc-900 dark:text-zinc-50 sm:text-4xl">
             <MoneyText text={cs.title} />
@@ -120,6 +175,8 @@ export default async function CaseStudyPage({
                 </ul>
               </div>
             )}
+
+            <CaseStudyHistory cs={cs} />
           </div>
 
           <aside className="md:col-span-1">
@@ -145,6 +202,11 @@ export default async function CaseStudyPage({
               <div className="text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
                 Proof sources
               </div>
+              {health ? (
+                <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Proof last checked {formatVerifiedOn(health.lastCheckedAt.slice(0, 10))}
+                </div>
+              ) : null}
               {cs.proofSources?.length ? (
                 <ul className="mt-3 space-y-3 text-sm">
                   {cs.proofSources.map((s) => (
@@ -167,6 +229,26 @@ export default async function CaseStudyPage({
                           <MoneyText text={s.excerpt} />
                         </div>
                       )}
+                      {s.check && (
+                        <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                          {PROOF_CHECK_LABELS[s.check.status]} · checked {formatVerifiedOn(s.check.fetchedAt.slice(0, 10))}
+                          {s.check.status === "not-found" ? ` (match ${Math.round(s.check.score * 100)}%)` : ""}
+                        </div>
+                      )}
+                      {s.archive && (
+                        <a
+                          className="mt-1 inline-block text-xs font-semibold text-zinc-600 underline-offset-2 hover:underline dark:text-zinc-300"
+                          href={`/archive/${encodeURIComponent(s.archive.runId)}/${s.archive.key}`}
+                        >
+                          Archived copy ({formatVerifiedOn(s.archive.archivedAt.slice(0, 10))})
+                        </a>
+                      )}
+                      {health?.sources[s.url] && (
+                        <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                          Link {PROOF_HEALTH_LABELS[health.sources[s.url].status]} ·{" "}
+                          {formatVerifiedOn(health.sources[s.url].lastCheckedAt.slice(0, 10))}
+                        </div>
+                      )}
                     </li>
                   ))}
                 </ul>
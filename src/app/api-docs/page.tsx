@@ -99,13 +99,31 @@ export default function ApiDocsPage() {
                     <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">q</td>
                     <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">string</td>
                     <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">-</td>
-                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Search in title, summary, description</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Ranked search over title, tags, mechanisms, summary, description and proof excerpts (every word must match; prefixes count)</td>
+                  </tr>
+                  <tr>
+                    <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">metric</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">string</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">-</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Filter by headline amount metric: <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">revenue</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">mrr</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">arr</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">profit</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">prize</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">bounty</code> or <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">sale-price</code></td>
+                  </tr>
+                  <tr>
+                    <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">minAmount</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">number</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">-</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Only include case studies whose headline amount is at least this value (in USD)</td>
+                  </tr>
+                  <tr>
+                    <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">currency</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">string</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">-</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Filter by original currency of the headline amount (e.g. <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">USD</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">EUR</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">ETH</code>)</td>
                   </tr>
                   <tr>
                     <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">sort</td>
                     <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">string</td>
-                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">date</td>
-                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Sort by: <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">date</code> or <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">title</code></td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">date (relevance with q)</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Sort by: <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">relevance</code> (with <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">q</code>), <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">date</code>, <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">title</code> or <code className="rounded bg-zinc-100 px-1 dark:bg-zinc-800">amount</code> (headline amount in USD)</td>
                   </tr>
                   <tr>
                     <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">order</td>
@@ -146,7 +164,25 @@ export default function ApiDocsPage() {
           "kind": "website"
         }
       ],
-      "status": "verified"
+      "amounts": [
+        {
+          "value": 2300,
+          "currency": "USD",
+          "period": "monthly",
+          "metric": "mrr",
+          "text": "$2.3K",
+          "sourceUrl": "https://x.com/...",
+          "usdValue": 2300,
+          "fxVersion": "2026-10-01"
+        }
+      ],
+      "status": "verified",
+      "proofHealth": {
+        "lastCheckedAt": "2026-10-18T06:00:00.000Z",
+        "sources": {
+          "https://arcstory.ai": { "status": "ok", "lastCheckedAt": "2026-10-18T06:00:00.000Z", "httpStatus": 200, "...": "..." }
+        }
+      }
     }
   ],
   "meta": {
@@ -155,7 +191,14 @@ export default function ApiDocsPage() {
     "offset": 0,
     "hasMore": false
   },
-  "tags": ["AI", "SaaS", "trading", "..."]
+  "tags": ["AI", "SaaS", "trading", "..."],
+  "facets": {
+    "tags": { "AI": 18, "SaaS": 6, "...": 1 },
+    "mechanisms": { "Subscriptions": 4, "...": 1 },
+    "status": { "verified": 12, "speculation": 13 },
+    "year": { "2025": 9, "2026": 16 },
+    "amount": { "none": 3, "under-1k": 2, "1k-10k": 11, "10k-100k": 6, "100k-1m": 2, "1m-plus": 1 }
+  }
 }`}
             </pre>
           </div>
@@ -238,7 +281,7 @@ export default function ApiDocsPage() {
                   <tr>
                     <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">title</td>
                     <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">string</td>
-                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Case study title (includes $ amount)</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Case study title (includes the money amount)</td>
                   </tr>
                   <tr>
                     <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">summary</td>
@@ -265,6 +308,11 @@ export default function ApiDocsPage() {
                     <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">object[]</td>
                     <td className="py-3 text-zinc-600 dark:text-zinc-400">Links verifying the claims</td>
                   </tr>
+                  <tr>
+                    <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">amounts</td>
+                    <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">object[]</td>
+                    <td className="py-3 text-zinc-600 dark:text-zinc-400">Structured money amounts in their original currency (value, currency, period, metric, backing source) plus a USD-normalized value. First entry is the headline amount.</td>
+                  </tr>
                   <tr>
                     <td className="py-3 pr-4 font-mono text-emerald-600 dark:text-emerald-400">status</td>
                     <td className="py-3 pr-4 text-zinc-600 dark:text-zinc-400">string</td>
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { readProofArchive } from "@/lib/blobProofArchive";
+
+export const runtime = "nodejs";
+
+/**
+ * Archived copy of a proof page: `?runId=<id>&key=<key>` returns the stored JSON,
+ * `&format=html` the page source as plain text (never rendered, so nothing in it runs on this origin).
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const runId = (url.searchParams.get("runId") ?? "").trim();
+  const key = (url.searchParams.get("key") ?? "").trim();
+  const format = (url.searchParams.get("format") ?? "json").toLowerCase();
+  if (!runId || !key) return NextResponse.json({ error: "runId and key are required." }, { status: 400 });
+
+  try {
+    const archive = await readProofArchive(runId, key);
+    if (!archive) return NextResponse.json({ error: "Archived copy not found.", runId, key }, { status: 404 });
+    if (format === "html") {
+      return new NextResponse(archive.html, {
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "X-Content-Type-Options": "nosniff",
+          "Content-Security-Policy": "sandbox",
+          "Cache-Control": "public, max-age=86400",
+        },
+      });
+    }
+    return NextResponse.json(archive, { headers: { "Cache-Control": "public, max-age=86400" } });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Failed to read archived copy.", details: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { isAdminAuthorized } from "@/lib/adminAuth";
+import { AUDIT_FILES, listRunAuditFiles, readRunAuditFile, type AuditFile } from "@/lib/blobCaseStudies";
+
+export const runtime = "nodejs";
+
+/**
+ * Audit artifacts of one pipeline run (linked from the History section of each case study).
+ * `?runId=<id>` lists the stored files; `&file=run.json` returns one of them.
+ */
+export async function GET(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const runId = (url.searchParams.get("runId") ?? "").trim();
+  const file = (url.searchParams.get("file") ?? "").trim();
+  if (!runId) return NextResponse.json({ error: "runId is required." }, { status: 400 });
+  if (file && !(AUDIT_FILES as readonly string[]).includes(file)) {
+    return NextResponse.json({ error: `file must be one of: ${AUDIT_FILES.join(", ")}.` }, { status: 400 });
+  }
+
+  try {
+    if (!file) {
+      const files = await listRunAuditFiles(runId);
+      return NextResponse.json({ runId, files }, { headers: { "Cache-Control": "no-store" } });
+    }
+    const content = await readRunAuditFile(runId, file as AuditFile);
+    if (content === null) return NextResponse.json({ error: "Audit file not found.", runId, file }, { status: 404 });
+    return NextResponse.json(content, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Failed to read audit artifacts.", details: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { readChangesSince } from "@/lib/blobCaseStudies";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Changes to the live dataset since a given run: added and modified entries (with field-level
+ * changes and the current entry) and removed ids. `until` is the runId to pass as `since` next time.
+ */
+export async function GET(req: Request) {
+  const since = (new URL(req.url).searchParams.get("since") ?? "").trim();
+  if (!since) {
+    return NextResponse.json({ success: false, error: "since=<runId> is required." }, { status: 400 });
+  }
+
+  const changes = await readChangesSince(since);
+  if (!changes) {
+    return NextResponse.json({ success: false, error: "Unknown runId or no live dataset.", since }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    { success: true, ...changes },
+    {
+      headers: {
+        "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0",
+      },
+    },
+  );
+}
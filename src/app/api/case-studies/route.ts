@@ -1,7 +1,10 @@
 import { NextResponse } from "next/server";
-import rawCaseStudies from "@/data/case-studies.json";
-import type { CaseStudy } from "@/lib/types";
-import { readLiveCaseStudiesFromBlob } from "@/lib/blobCaseStudies";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
+import { readLiveDatasetFromBlob, readSearchArtifacts } from "@/lib/blobCaseStudies";
+import { readProofHealth } from "@/lib/blobProofHealth";
+import { listedCaseStudies } from "@/lib/caseStudyEdits";
+import { primaryAmount, primaryUsdValue } from "@/lib/money";
+import { searchCaseStudies } from "@/lib/searchIndex";
 
 export const dynamic = "force-dynamic";
 
@@ -14,13 +17,17 @@ export async function GET(req: Request) {
   const statusParam = url.searchParams.get("status");
   const tagParam = url.searchParams.get("tag");
   const searchParam = url.searchParams.get("q") ?? url.searchParams.get("search");
-  const sortParam = url.searchParams.get("sort") ?? "date";
+  const metricParam = url.searchParams.get("metric");
+  const minAmountParam = url.searchParams.get("minAmount");
+  const currencyParam = url.searchParams.get("currency");
+  const sortParam = url.searchParams.get("sort") ?? (searchParam ? "relevance" : "date");
   const orderParam = url.searchParams.get("order") ?? "desc";
 
   // Fetch case studies
-  const fromBlob = await readLiveCaseStudiesFromBlob();
-  const local = rawCaseStudies as unknown as CaseStudy[];
-  let caseStudies = (fromBlob ?? local).slice();
+  const live = await readLiveDatasetFromBlob();
+  const dataset = live ?? { runId: null, items: seedCaseStudies() };
+  const index = await readSearchArtifacts(dataset);
+  let caseStudies = listedCaseStudies(dataset.items);
 
   // Filter by status
   if (statusParam === "verified" || statusParam === "speculation") {
@@ -35,19 +42,42 @@ export async function GET(req: Request) {
     );
   }
 
-  // Search in title, summary, description
-  if (searchParam) {
-    const search = searchParam.toLowerCase();
-    caseStudies = caseStudies.filter(
-      (cs) =>
-        cs.title.toLowerCase().includes(search) ||
-        cs.summary.toLowerCase().includes(search) ||
-        cs.description.toLowerCase().includes(search)
-    );
+  // Filter by headline amount metric (revenue, mrr, arr, profit, prize, bounty, sale-price)
+  if (metricParam) {
+    const metric = metricParam.toLowerCase();
+    caseStudies = caseStudies.filter((cs) => primaryAmount(cs)?.metric === metric);
+  }
+
+  // Filter by currency of the headline amount (e.g. USD, EUR, ETH)
+  if (currencyParam) {
+    const currency = currencyParam.toUpperCase();
+    caseStudies = caseStudies.filter((cs) => primaryAmount(cs)?.currency === currency);
+  }
+
+  // Filter by minimum headline amount (normalized to USD)
+  if (minAmountParam) {
+    const minAmount = Number(minAmountParam);
+    if (Number.isFinite(minAmount)) {
+      caseStudies = caseStudies.filter((cs) => primaryUsdValue(cs) >= minAmount);
+    }
+  }
+
+  // Ranked search over the prebuilt index (title, tags, mechanisms, summary, description, proofs),
+  // then substring matches (proof URLs, parts of words)
+  const scores = searchParam
+    ? new Map(searchCaseStudies(index, searchParam, caseStudies).map((hit) => [hit.id, hit.score]))
+    : null;
+  if (scores) {
+    caseStudies = caseStudies.filter((cs) => scores.has(cs.id));
   }
 
   // Sort
-  if (sortParam === "date") {
+  if (sortParam === "relevance" && scores) {
+    caseStudies.sort((a, b) => {
+      const diff = (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || b.date.localeCompare(a.date);
+      return orderParam === "asc" ? -diff : diff;
+    });
+  } else if (sortParam === "date") {
     caseStudies.sort((a, b) =>
       orderParam === "asc"
         ? a.date.localeCompare(b.date)
@@ -59,6 +89,12 @@ export async function GET(req: Request) {
         ? a.title.localeCompare(b.title)
         : b.title.localeCompare(a.title)
     );
+  } else if (sortParam === "amount") {
+    caseStudies.sort((a, b) => {
+      const av = primaryUsdValue(a);
+      const bv = primaryUsdValue(b);
+      return orderParam === "asc" ? av - bv : bv - av;
+    });
   }
 
   const total = caseStudies.length;
@@ -68,24 +104,28 @@ export async function GET(req: Request) {
   const offset = offsetParam ? Math.max(0, parseInt(offsetParam) || 0) : 0;
   caseStudies = caseStudies.slice(offset, offset + limit);
 
+  // Link health from the recheck-proofs cron: when each proof was last checked, and any open flag
+  const health = await readProofHealth();
+  const data = caseStudies.map((cs) => ({ ...cs, proofHealth: health.entries[cs.id] ?? null }));
+
   // Get all unique tags for reference
-  const allTags = Array.from(
-    new Set(
-      (fromBlob ?? local).flatMap((cs) => cs.tags)
-    )
-  ).sort();
+  const allTags = Object.keys(index.facets.tags).sort();
 
   return NextResponse.json(
     {
       success: true,
-      data: caseStudies,
+      data,
       meta: {
         total,
         limit,
         offset,
         hasMore: offset + caseStudies.length < total,
+        // Pass as `since` to /api/case-studies/changes to fetch later changes only.
+        runId: live?.runId ?? null,
       },
       tags: allTags,
+      // Counts over the whole dataset (tags, mechanisms, status, year, amount buckets)
+      facets: index.facets,
     },
     {
       headers: {
@@ -1,5 +1,16 @@
 import { NextResponse } from "next/server";
-import { readLatestPerplexityAsyncJob, updateLatestPerplexityAsyncJob } from "@/lib/blobPerplexityAsync";
+import {
+  aggregateStageSources,
+  aggregateStageSummaries,
+  isV1Job,
+  readLatestScoutJob,
+  updateLatestPerplexityAsyncJob,
+  updateLatestScoutJob,
+  type PendingPerplexityAsyncJobV1,
+  type PendingScoutJobV2,
+  type PendingStage,
+} from "@/lib/blobScoutAsync";
+import { advanceStage, MAX_STAGE_ATTEMPTS } from "@/lib/researchStages";
 import { runStoryParser } from "@/app/api/cron/parse-new-stories/route";
 
 export const runtime = "nodejs";
@@ -23,12 +34,8 @@ function isAuthorized(req: Request) {
   return false;
 }
 
-export async function GET(req: Request) {
-  if (!isAuthorized(req)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-
-  const latest = await readLatestPerplexityAsyncJob();
-  if (!latest) return NextResponse.json({ error: "No pending Perplexity async job found." }, { status: 404 });
-
+/** Jobs written before multi-stage research: a single Perplexity async request. */
+async function finalizeLegacyJob(req: Request, latest: PendingPerplexityAsyncJobV1) {
   const attempts = Math.max(0, Number(latest.finalizeAttempts ?? 0) || 0);
   // Allow up to 3 retries for more resilience with deep research timing.
   // - First finalize call: attempts becomes 1
@@ -103,6 +110,120 @@ export async function GET(req: Request) {
   return out;
 }
 
+function stageReport(stages: PendingStage[]) {
+  return stages.map((s) => ({
+    stageId: s.stageId,
+    provider: s.provider,
+    status: s.status,
+    attempts: s.attempts ?? 0,
+    sources: s.sources?.length ?? 0,
+    error: s.error,
+  }));
+}
+
+async function finalizeScoutJob(req: Request, latest: PendingScoutJobV2) {
+  const url = new URL(req.url);
+  const retryFailed = url.searchParams.get("retryFailed") === "1";
+
+  if (latest.finalizedAt && !retryFailed) {
+    return NextResponse.json(
+      {
+        ok: false,
+        blocked: true,
+        reason: "Job already finalized. Pass retryFailed=1 to re-run failed stages, or start a new job.",
+        runId: latest.runId,
+        finalizedAt: latest.finalizedAt,
+        stages: stageReport(latest.stages),
+      },
+      { status: 409 },
+    );
+  }
+
+  const attempts = Math.max(0, Number(latest.finalizeAttempts ?? 0) || 0);
+  if (attempts >= 3 && !retryFailed) {
+    return NextResponse.json(
+      {
+        ok: false,
+        blocked: true,
+        reason: "Max finalize attempts reached. Pass retryFailed=1 to re-run failed stages, or start a new job.",
+        runId: latest.runId,
+        finalizeAttempts: attempts,
+        stages: stageReport(latest.stages),
+      },
+      { status: 409 },
+    );
+  }
+
+  const ctx = { withinDays: latest.withinDays, searchLimit: latest.searchLimit };
+  // With retryFailed only failed stages are re-run; completed stages keep their sources.
+  const shouldAdvance = (s: PendingStage) =>
+    retryFailed ? s.status === "failed" && (s.attempts ?? 0) < MAX_STAGE_ATTEMPTS : s.status !== "completed";
+
+  let job: PendingScoutJobV2 = {
+    ...latest,
+    finalizeAttempts: attempts + 1,
+    lastFinalizeAt: new Date().toISOString(),
+  };
+  job = { ...job, stages: await Promise.all(job.stages.map((s) => (shouldAdvance(s) ? advanceStage(s, ctx) : s))) };
+  await updateLatestScoutJob(job);
+
+  // Deep research can take 2-5 minutes: poll async stages a couple more times before giving up.
+  for (let retry = 0; retry < 2 && job.stages.some((s) => s.status === "in_progress"); retry++) {
+    await sleep(15_000);
+    job = {
+      ...job,
+      stages: await Promise.all(job.stages.map((s) => (s.status === "in_progress" ? advanceStage(s, ctx) : s))),
+    };
+    await updateLatestScoutJob(job);
+  }
+
+  if (job.stages.some((s) => s.status === "in_progress")) {
+    return NextResponse.json(
+      { ok: true, pending: true, runId: job.runId, stages: stageReport(job.stages) },
+      { status: 202 },
+    );
+  }
+  if (!job.stages.some((s) => s.status === "completed")) {
+    return NextResponse.json(
+      {
+        error: "Every research stage failed.",
+        details: job.stages.map((s) => `${s.stageId}: ${s.error ?? s.status}`),
+        runId: job.runId,
+        stages: stageReport(job.stages),
+      },
+      { status: 502 },
+    );
+  }
+
+  const parserUrl = new URL(url.toString());
+  parserUrl.searchParams.delete("retryFailed");
+  if (!parserUrl.searchParams.get("withinDays") && job.withinDays) parserUrl.searchParams.set("withinDays", String(job.withinDays));
+  if (!parserUrl.searchParams.get("find") && job.find) parserUrl.searchParams.set("find", String(job.find));
+  if (!parserUrl.searchParams.get("searchLimit") && job.searchLimit) parserUrl.searchParams.set("searchLimit", String(job.searchLimit));
+  if (!parserUrl.searchParams.get("mode") && job.mode) parserUrl.searchParams.set("mode", job.mode);
+
+  const out = await runStoryParser(new Request(parserUrl.toString(), req), {
+    disableSend: true,
+    defaultWithinDays: 7,
+    preAggregatedSources: aggregateStageSources(job.stages),
+    preAggregatedSummary: aggregateStageSummaries(job.stages),
+  });
+  if (out.status !== 200) return out;
+
+  await updateLatestScoutJob({ ...job, finalizedAt: new Date().toISOString() });
+  const body = (await out.json()) as Record<string, unknown>;
+  return NextResponse.json({ ...body, stages: stageReport(job.stages) });
+}
+
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const latest = await readLatestScoutJob();
+  if (!latest) return NextResponse.json({ error: "No pending scout job found." }, { status: 404 });
+  if (isV1Job(latest)) return finalizeLegacyJob(req, latest);
+  return finalizeScoutJob(req, latest);
+}
+
 export async function POST(req: Request) {
   return GET(req);
 }
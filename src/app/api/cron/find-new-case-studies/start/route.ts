@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
-import { writeLatestPerplexityAsyncJob } from "@/lib/blobPerplexityAsync";
-import { buildDefaultScoutQuery, SCOUT_CONFIG_VERSION } from "@/lib/scoutConfig";
+import { writeLatestScoutJob, type PendingStage } from "@/lib/blobScoutAsync";
+import { missingProviderKey } from "@/lib/researchProviders";
+import { startStage } from "@/lib/researchStages";
+import { SCOUT_CONFIG_VERSION, selectResearchStages } from "@/lib/scoutConfig";
+import { makeRunId } from "@/lib/runId";
 
 export const runtime = "nodejs";
 
@@ -19,19 +22,12 @@ function isAuthorized(req: Request) {
   return false;
 }
 
-function todayIsoUtc() {
-  return new Date().toISOString().slice(0, 10);
-}
-
 export async function GET(req: Request) {
   if (!isAuthorized(req)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const enabled = (process.env.WEEKLY_UPDATE_ENABLED ?? "true").toLowerCase() === "true";
   if (!enabled) return NextResponse.json({ ok: true, skipped: true, reason: "disabled" });
 
-  const perplexityKey = process.env.PERPLEXITY_API_KEY ?? "";
-  if (!perplexityKey) return NextResponse.json({ error: "PERPLEXITY_API_KEY is missing." }, { status: 500 });
-
   const url = new URL(req.url);
   const isCron = (req.headers.get("x-vercel-cron") ?? "") === "1";
   const withinDaysParam = url.searchParams.get("withinDays") ?? url.searchParams.get("days") ?? "";
@@ -41,78 +37,51 @@ export async function GET(req: Request) {
       : Math.max(0, Math.min(60, isCron ? 7 : 0));
   const searchLimit = Math.max(1, Math.min(25, Number(url.searchParams.get("searchLimit") ?? "20") || 20));
   const find = Math.max(1, Math.min(10, Number(url.searchParams.get("find") ?? "10") || 10));
-  const queryParam = url.searchParams.get("query") ?? url.searchParams.get("q") ?? "";
+  const queryParam = (url.searchParams.get("query") ?? url.searchParams.get("q") ?? "").trim().slice(0, 600);
   const modeParam = (url.searchParams.get("mode") ?? "").trim().toLowerCase();
   const mode: "strict" | "speculation" = modeParam === "strict" ? "strict" : "speculation";
-  const query =
-    (queryParam || "").trim().slice(0, 600) ||
-    buildDefaultScoutQuery({ windowDays: withinDays || (isCron ? 7 : 7) });
-
-  const runId = `${todayIsoUtc()}T${new Date().toISOString().slice(11, 19).replaceAll(":", "-")}Z`;
-
-  // Create an async deep-research job (Perplexity will run it in the background).
-  const res = await fetch("https://api.perplexity.ai/async/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${perplexityKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      request: {
-        model: "sonar-deep-research",
-        search_mode: "web",
-        reasoning_effort: "low",
-        temperature: 0.2,
-        max_tokens: 2400,
-        // Use recency for robustness; we still hard-filter results by withinDays in finalize.
-        search_recency_filter: withinDays ? "week" : "week",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a research agent. Prefer primary sources and reputable reporting. Avoid Facebook, TikTok, Instagram, Discord, Telegram. YouTube, X/Twitter indie maker posts, IndieHackers, HackerNews, and ProductHunt are allowed.",
-          },
-          {
-            role: "user",
-            content: [
-              "Find publicly verifiable examples of AI agents, AI tools, AI SaaS, or AI-powered products that made money with explicit $ amounts.",
-              "Exclude fundraising/valuations/grants.",
-              "Include: revenue, MRR, ARR, profit, prize payouts, bounties, sale prices, freelance/consulting income using AI.",
-              `Return up to ${Math.max(5, Math.min(25, searchLimit))} sources with title, url, date, snippet (include a verbatim quote containing the $ amount when possible).`,
-              "",
-              `Query: ${query}`,
-            ].join("\n"),
-          },
-        ],
-        web_search_options: { search_context_size: "high" },
-      },
-    }),
-  });
-
-  if (!res.ok) {
-    const body = await res.text().catch(() => "");
-    return NextResponse.json({ error: "Perplexity async start failed.", details: `${res.status} ${body}` }, { status: 502 });
+  const stagesParam = url.searchParams.get("stages") ?? process.env.SCOUT_STAGES ?? "";
+
+  // Stages whose provider has no API key are skipped rather than failing the whole run.
+  const configured = selectResearchStages(stagesParam);
+  const skipped = configured
+    .filter((s) => missingProviderKey(s.provider))
+    .map((s) => ({ stageId: s.stageId, reason: `${missingProviderKey(s.provider)} is missing.` }));
+  const runnable = configured.filter((s) => !missingProviderKey(s.provider));
+  if (!runnable.length) {
+    return NextResponse.json({ error: "No research stages can run.", details: skipped }, { status: 500 });
   }
 
-  const json = (await res.json()) as any;
-  const requestId = String(json?.id ?? "").trim();
-  const status = String(json?.status ?? "").trim();
-  if (!requestId) {
-    return NextResponse.json({ error: "Perplexity async start returned no request id.", raw: json }, { status: 502 });
-  }
-
-  const blobWrite = await writeLatestPerplexityAsyncJob({
-    version: 1,
+  const runId = makeRunId();
+  const ctx = { withinDays, searchLimit };
+  const windowDays = withinDays || 7;
+
+  // A custom ?query= replaces the prompt of every Perplexity stage.
+  const stages: PendingStage[] = await Promise.all(
+    runnable.map((s) =>
+      startStage(
+        {
+          stageId: s.stageId,
+          provider: s.provider,
+          status: "pending",
+          query: s.provider === "perplexity" && queryParam ? queryParam : s.buildQuery({ windowDays }),
+        },
+        ctx,
+      ),
+    ),
+  );
+
+  const blobWrite = await writeLatestScoutJob({
+    version: 2,
     createdAt: new Date().toISOString(),
     finalizeAttempts: 0,
     runId,
-    requestId,
-    query,
     withinDays,
     find,
     searchLimit,
     scoutConfigVersion: SCOUT_CONFIG_VERSION,
     mode,
+    stages,
   });
 
   const finalizeUrl = new URL(url.toString());
@@ -122,15 +91,14 @@ export async function GET(req: Request) {
     ok: true,
     pending: true,
     runId,
-    requestId,
-    status,
+    stages: stages.map((s) => ({ stageId: s.stageId, provider: s.provider, status: s.status, error: s.error })),
+    skipped,
     blob: blobWrite,
     finalize: finalizeUrl.toString(),
-    note: "Wait ~5 minutes then call finalize (it will return 202 until COMPLETED).",
+    note: "Wait ~5 minutes then call finalize (it will return 202 until every async stage has finished).",
   });
 }
 
 export async function POST(req: Request) {
   return GET(req);
 }
-
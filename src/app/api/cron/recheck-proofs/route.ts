@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { readLiveDatasetFromBlob } from "@/lib/blobCaseStudies";
+import { pickRecheckBatch, readProofHealth, recheckProofs, saveProofRecheck } from "@/lib/blobProofHealth";
+import { datasetStoreConfigError } from "@/lib/datasetStore";
+import { resolveProofFetcher } from "@/lib/proofVerification";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+function isAuthorized(req: Request) {
+  // Vercel Cron sets this header automatically.
+  if ((req.headers.get("x-vercel-cron") ?? "") === "1") return true;
+
+  // Fallback for manual triggering (local/dev): Authorization: Bearer <token> OR ?token=<token>
+  const token = process.env.CRON_TOKEN ?? "";
+  if (!token) return false;
+
+  const url = new URL(req.url);
+  const queryToken = url.searchParams.get("token") ?? "";
+  if (queryToken && queryToken === token) return true;
+
+  const auth = req.headers.get("authorization") ?? "";
+  if (auth.toLowerCase().startsWith("bearer ") && auth.slice(7) === token) return true;
+
+  return false;
+}
+
+/**
+ * Re-checks the proof URLs of the least recently checked live entries (see `src/lib/blobProofHealth.ts`).
+ * `?batch=N` sets how many entries (default PROOF_RECHECK_BATCH or 10, max 50); `?id=` checks one entry.
+ */
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const storeError = datasetStoreConfigError();
+  if (storeError) return NextResponse.json({ error: storeError }, { status: 500 });
+
+  const fetcher = resolveProofFetcher();
+  if (!fetcher) return NextResponse.json({ ok: true, skipped: true, reason: "PROOF_FETCHER=off" });
+
+  const url = new URL(req.url);
+  const id = (url.searchParams.get("id") ?? "").trim();
+  const batchParam = url.searchParams.get("batch") ?? process.env.PROOF_RECHECK_BATCH ?? "";
+  const batchSize = Math.max(1, Math.min(50, Number(batchParam) || 10));
+
+  try {
+    const live = await readLiveDatasetFromBlob({ fresh: true });
+    if (!live) return NextResponse.json({ ok: true, skipped: true, reason: "no-live-dataset" });
+
+    const health = await readProofHealth({ fresh: true });
+    const batch = id ? live.items.filter((cs) => cs.id === id) : pickRecheckBatch(live.items, health, batchSize);
+    if (id && !batch.length) return NextResponse.json({ error: "Case study not found.", id }, { status: 404 });
+
+    const { entries, summary } = await recheckProofs({ items: live.items, batch, health, fetcher });
+    // Only this batch's entries are written over the current record (another recheck may have run meanwhile).
+    const checked = Object.fromEntries(summary.checkedIds.map((entryId) => [entryId, entries[entryId]]));
+    const doc = await saveProofRecheck({ liveIds: new Set(live.items.map((cs) => cs.id)), checked });
+    const flagged = Object.entries(doc.entries).filter(([, e]) => e.flag).map(([entryId]) => entryId);
+
+    return NextResponse.json({ ok: true, runId: live.runId, fetcher: fetcher.backend, ...summary, flagged });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Proof recheck failed.", details: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { readLiveManifestFromBlob } from "@/lib/blobCaseStudies";
+import { readReviewQueue } from "@/lib/blobReviewQueue";
+import { datasetStoreConfigError, getDatasetStore } from "@/lib/datasetStore";
+import { applyRetention, planRetention, retentionPolicyFromEnv, type RetentionReason } from "@/lib/retention";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+const REPORT_LIMIT = 500;
+
+function isAuthorized(req: Request) {
+  // Vercel Cron sets this header automatically.
+  if ((req.headers.get("x-vercel-cron") ?? "") === "1") return true;
+
+  // Fallback for manual triggering (local/dev): Authorization: Bearer <token> OR ?token=<token>
+  const token = process.env.CRON_TOKEN ?? "";
+  if (!token) return false;
+
+  const url = new URL(req.url);
+  const queryToken = url.searchParams.get("token") ?? "";
+  if (queryToken && queryToken === token) return true;
+
+  const auth = req.headers.get("authorization") ?? "";
+  if (auth.toLowerCase().startsWith("bearer ") && auth.slice(7) === token) return true;
+
+  return false;
+}
+
+/**
+ * Deletes old snapshots and audit artifacts (see `src/lib/retention.ts`).
+ * Only reports what it would delete unless RETENTION_ENABLED=true; `?dryRun=1` always just reports.
+ */
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const storeError = datasetStoreConfigError();
+  if (storeError) return NextResponse.json({ error: storeError }, { status: 500 });
+
+  const url = new URL(req.url);
+  const dryRunParam = (url.searchParams.get("dryRun") ?? "").toLowerCase();
+  const enabled = (process.env.RETENTION_ENABLED ?? "false").toLowerCase() === "true";
+  const dryRun = !enabled || dryRunParam === "1" || dryRunParam === "true";
+
+  try {
+    const store = getDatasetStore();
+    const live = await readLiveManifestFromBlob();
+    const queue = await readReviewQueue();
+    const plan = await planRetention({
+      store,
+      policy: retentionPolicyFromEnv(),
+      liveRunId: live?.runId ?? null,
+      pending: queue.items.map((x) => x.caseStudy),
+    });
+    if (!dryRun) await applyRetention(store, plan);
+
+    const byReason: Partial<Record<RetentionReason, { count: number; bytes: number }>> = {};
+    for (const o of plan.objects) {
+      const r = (byReason[o.reason] ??= { count: 0, bytes: 0 });
+      r.count++;
+      r.bytes += o.size;
+    }
+
+    return NextResponse.json({
+      ok: true,
+      dryRun,
+      policy: plan.policy,
+      liveRunId: plan.liveRunId,
+      runs: { kept: plan.keptRunIds.length, deleted: plan.deletedRunIds },
+      deleted: { count: plan.objects.length, bytes: plan.bytes, byReason },
+      objects: plan.objects.slice(0, REPORT_LIMIT),
+      truncated: plan.objects.length > REPORT_LIMIT,
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Retention failed.", details: msg }, { status: 500 });
+  }
+}
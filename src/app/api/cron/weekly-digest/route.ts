@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
-import rawCaseStudies from "@/data/case-studies.json";
-import type { CaseStudy } from "@/lib/types";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
 import { readLiveCaseStudiesFromBlob } from "@/lib/blobCaseStudies";
+import { listedCaseStudies } from "@/lib/caseStudyEdits";
 import { renderWeeklyDigestEmail } from "@/lib/newsletterDigest";
 import {
   resendCreateBroadcast,
@@ -60,9 +60,8 @@ export async function GET(req: Request) {
     const isTest = testParam === "1" || testParam === "true";
 
     const fromBlob = await readLiveCaseStudiesFromBlob();
-    const local = rawCaseStudies as unknown as CaseStudy[];
-    const all = (fromBlob ?? local)
-      .slice()
+    const local = seedCaseStudies();
+    const all = listedCaseStudies(fromBlob ?? local)
       .sort((a, b) => {
         const ar = (a.status ?? "speculation") === "verified" ? 0 : 1;
         const br = (b.status ?? "speculation") === "verified" ? 0 : 1;
@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import type { CaseStudy, Revision } from "@/lib/types";
+import { isAdminAuthorized } from "@/lib/adminAuth";
+import { DatasetConflictError, publishDatasetEdit, readLiveDatasetFromBlob } from "@/lib/blobCaseStudies";
+import {
+  applyCaseStudyPatch,
+  mergeCaseStudies,
+  parseCaseStudyPatch,
+  retractCaseStudy,
+  type DatasetEdit,
+  type EditOp,
+} from "@/lib/caseStudyEdits";
+import { validateCaseStudy, validateMoneyAmounts } from "@/lib/caseStudyPolicy";
+import { diffFields } from "@/lib/datasetDiff";
+import { datasetStoreConfigError } from "@/lib/datasetStore";
+import { appendRevision } from "@/lib/provenance";
+import { makeRunId } from "@/lib/runId";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
+
+export const runtime = "nodejs";
+
+const readString = (value: unknown, max: number) => (typeof value === "string" ? value.trim().slice(0, max) : "");
+
+function invalid(cs: CaseStudy) {
+  const issues = validateCaseStudy(cs);
+  if (!issues.length) return null;
+  return NextResponse.json(
+    { error: "Edited case study fails validation.", details: issues.map((x) => `${x.path} ${x.message}`) },
+    { status: 422 },
+  );
+}
+
+/**
+ * POST { action, id, editor, reason, expectedRunId?, fields?, duplicateId? }
+ * - patch: set `fields` (see EDITABLE_FIELDS) on entry `id`
+ * - retract: hide `id` from listings; its page stays up with a notice
+ * - merge: fold `duplicateId` into `id` and retract the duplicate
+ * Every action publishes a new run whose manifest records the edit.
+ */
+export async function POST(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const storeError = datasetStoreConfigError();
+  if (storeError) return NextResponse.json({ error: storeError }, { status: 500 });
+
+  let body: {
+    action?: unknown;
+    id?: unknown;
+    editor?: unknown;
+    reason?: unknown;
+    expectedRunId?: unknown;
+    fields?: unknown;
+    duplicateId?: unknown;
+  };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  if (body.action !== "patch" && body.action !== "retract" && body.action !== "merge") {
+    return NextResponse.json({ error: 'action must be "patch", "retract" or "merge".' }, { status: 400 });
+  }
+  const action: EditOp = body.action;
+  const id = readString(body.id, 200);
+  const editor = readString(body.editor, 100);
+  const reason = readString(body.reason, 500);
+  if (!id) return NextResponse.json({ error: "id is required." }, { status: 400 });
+  if (!editor || !reason) return NextResponse.json({ error: "editor and reason are required." }, { status: 400 });
+
+  try {
+    const live = (await readLiveDatasetFromBlob({ fresh: true })) ?? { runId: null, items: seedCaseStudies() };
+    if (typeof body.expectedRunId === "string" && body.expectedRunId !== live.runId) {
+      return NextResponse.json(
+        { error: "The live dataset changed. Reload and try again.", currentRunId: live.runId },
+        { status: 409 },
+      );
+    }
+    const target = live.items.find((x) => x.id === id);
+    if (!target) return NextResponse.json({ error: "Case study not found.", id }, { status: 404 });
+
+    const runId = makeRunId();
+    const replacements = new Map<string, CaseStudy>();
+    const edit: DatasetEdit = { op: action, id, editor, reason };
+    const revision = (extra: Partial<Revision> = {}): Revision => ({
+      op: action,
+      runId,
+      at: new Date().toISOString(),
+      editor,
+      reason,
+      ...extra,
+    });
+
+    if (action === "patch") {
+      const { patch, ignored } = parseCaseStudyPatch(body.fields);
+      if (ignored.length) {
+        return NextResponse.json({ error: "Some fields cannot be edited.", details: ignored.join(", ") }, { status: 400 });
+      }
+      const amountIssues = patch.amounts === undefined ? [] : validateMoneyAmounts(patch.amounts, "fields.amounts");
+      if (amountIssues.length) {
+        return NextResponse.json(
+          { error: "Invalid amounts.", details: amountIssues.map((x) => `${x.path} ${x.message}`) },
+          { status: 400 },
+        );
+      }
+      const next = applyCaseStudyPatch(target, patch);
+      const changed = diffFields(target, next).map((c) => c.field);
+      if (!changed.length) return NextResponse.json({ error: "No changes.", id }, { status: 400 });
+      const error = invalid(next);
+      if (error) return error;
+      replacements.set(id, appendRevision(next, revision({ fields: changed })));
+      edit.fields = changed;
+    } else if (action === "retract") {
+      if (target.retracted) return NextResponse.json({ error: "Already retracted.", id }, { status: 409 });
+      replacements.set(id, appendRevision(retractCaseStudy(target, { reason, editor }), revision()));
+    } else {
+      const duplicateId = readString(body.duplicateId, 200);
+      if (!duplicateId || duplicateId === id) {
+        return NextResponse.json({ error: "duplicateId is required and must differ from id." }, { status: 400 });
+      }
+      const duplicate = live.items.find((x) => x.id === duplicateId);
+      if (!duplicate) return NextResponse.json({ error: "Case study not found.", id: duplicateId }, { status: 404 });
+      if (target.retracted || duplicate.retracted) {
+        return NextResponse.json({ error: "Retracted entries cannot be merged." }, { status: 409 });
+      }
+      const merged = mergeCaseStudies(target, duplicate);
+      const error = invalid(merged);
+      if (error) return error;
+      replacements.set(id, appendRevision(merged, revision({ mergedFrom: duplicateId })));
+      replacements.set(
+        duplicateId,
+        appendRevision(retractCaseStudy(duplicate, { reason, editor, mergedInto: id }), revision({ op: "retract" })),
+      );
+      edit.duplicateId = duplicateId;
+    }
+
+    const items = live.items.map((x) => replacements.get(x.id) ?? x);
+    const blob = await publishDatasetEdit({ runId, base: live, items, edit });
+    return NextResponse.json({ ok: true, action, id, runId, caseStudy: replacements.get(id), edit, blob });
+  } catch (e) {
+    if (e instanceof DatasetConflictError) {
+      return NextResponse.json(
+        { error: "The live dataset changed. Reload and try again.", details: e.message },
+        { status: 409 },
+      );
+    }
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Edit failed.", details: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { isAdminAuthorized } from "@/lib/adminAuth";
+import { listLiveRunIds } from "@/lib/blobCaseStudies";
+import { replayRun } from "@/lib/runReplay";
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+const MAX_RUNS = 20;
+
+/**
+ * Replays past pipeline runs against the current candidate policy.
+ * `?runId=<id>` replays one run; `?runs=N` replays the last N live runs (default 5).
+ */
+export async function GET(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const runId = (url.searchParams.get("runId") ?? "").trim();
+  const runs = Math.max(1, Math.min(MAX_RUNS, Number(url.searchParams.get("runs") ?? 5) || 5));
+
+  try {
+    const runIds = runId ? [runId] : await listLiveRunIds(runs);
+    const replays = [];
+    for (const id of runIds) replays.push(await replayRun(id));
+    return NextResponse.json({ ok: true, replays }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    return NextResponse.json(
+      { error: "Replay failed", details: e instanceof Error ? e.message : String(e) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
+import type { MoneyAmount } from "@/lib/types";
+import { isAdminAuthorized } from "@/lib/adminAuth";
+import { publishLiveCaseStudies, readLiveDatasetFromBlob } from "@/lib/blobCaseStudies";
+import {
+  applyReviewEdits,
+  archiveRejectedReviewItem,
+  readReviewQueue,
+  updateReviewQueue,
+  type PendingReviewItem,
+  type ReviewEdits,
+} from "@/lib/blobReviewQueue";
+import { validateCaseStudy, validateMoneyAmounts } from "@/lib/caseStudyPolicy";
+import { datasetStoreConfigError } from "@/lib/datasetStore";
+import { appendRevision } from "@/lib/provenance";
+import { makeRunId } from "@/lib/runId";
+
+export const runtime = "nodejs";
+
+type ReviewAction = "approve" | "edit" | "reject" | "merge";
+
+function parseEdits(input: unknown): ReviewEdits {
+  if (!input || typeof input !== "object") return {};
+  const obj = input as { title?: unknown; summary?: unknown; amounts?: unknown };
+  return {
+    ...(typeof obj.title === "string" ? { title: obj.title } : {}),
+    ...(typeof obj.summary === "string" ? { summary: obj.summary } : {}),
+    ...(obj.amounts !== undefined ? { amounts: obj.amounts as MoneyAmount[] } : {}),
+  };
+}
+
+export async function GET(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const queue = await readReviewQueue();
+  return NextResponse.json(queue, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function POST(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const storeError = datasetStoreConfigError();
+  if (storeError) return NextResponse.json({ error: storeError }, { status: 500 });
+
+  let action: ReviewAction;
+  let id = "";
+  let edits: ReviewEdits = {};
+  let note = "";
+  try {
+    const body = (await req.json()) as { action?: unknown; id?: unknown; edits?: unknown; note?: unknown };
+    if (body.action !== "approve" && body.action !== "edit" && body.action !== "reject" && body.action !== "merge") {
+      return NextResponse.json({ error: 'action must be "approve", "edit", "reject" or "merge".' }, { status: 400 });
+    }
+    action = body.action;
+    id = typeof body.id === "string" ? body.id.trim() : "";
+    edits = parseEdits(body.edits);
+    note = typeof body.note === "string" ? body.note.trim().slice(0, 500) : "";
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  if (!id) return NextResponse.json({ error: "id is required." }, { status: 400 });
+  const amountIssues =
+    action === "reject" || edits.amounts === undefined ? [] : validateMoneyAmounts(edits.amounts, "edits.amounts");
+  if (amountIssues.length) {
+    return NextResponse.json(
+      { error: "Invalid amounts.", details: amountIssues.map((x) => `${x.path} ${x.message}`) },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const queue = await readReviewQueue({ fresh: true });
+    const item = queue.items.find((x) => x.caseStudy.id === id);
+    if (!item) return NextResponse.json({ error: "Not in the review queue.", id }, { status: 404 });
+    // Queue writes re-read the queue and only touch this id, so items a cron run queued meanwhile stay.
+    const withoutItem = (items: PendingReviewItem[]) => items.filter((x) => x.caseStudy.id !== id);
+
+    if (action === "reject") {
+      await archiveRejectedReviewItem(item, note);
+      const next = await updateReviewQueue(withoutItem);
+      return NextResponse.json({ ok: true, action, id, pending: next.items.length });
+    }
+
+    const caseStudy = applyReviewEdits(item.caseStudy, edits);
+    const issues = validateCaseStudy(caseStudy);
+    if (issues.length) {
+      return NextResponse.json(
+        { error: "Edited case study fails validation.", details: issues.map((x) => `${x.path} ${x.message}`) },
+        { status: 422 },
+      );
+    }
+
+    if (action === "edit") {
+      const editedAt = new Date().toISOString();
+      const next = await updateReviewQueue((items) =>
+        items.map((x) => (x.caseStudy.id === id ? { ...x, caseStudy, editedAt } : x)),
+      );
+      if (!next.items.some((x) => x.caseStudy.id === id)) {
+        return NextResponse.json({ error: "Not in the review queue.", id }, { status: 404 });
+      }
+      return NextResponse.json({ ok: true, action, id, caseStudy });
+    }
+
+    const live = (await readLiveDatasetFromBlob({ fresh: true })) ?? { runId: null, items: seedCaseStudies() };
+
+    // Merge: fold the item into the entry it likely repeats, as a progress update.
+    if (action === "merge") {
+      const match = item.duplicateOf;
+      if (!match) return NextResponse.json({ error: "Item is not a possible duplicate.", id }, { status: 409 });
+      const target = live.items.find((x) => x.id === match.id);
+      if (!target || target.retracted) {
+        return NextResponse.json({ error: "Duplicate target is not live.", id, targetId: match.id }, { status: 409 });
+      }
+      const runId = makeRunId();
+      const blob = await publishLiveCaseStudies({
+        runId,
+        base: live,
+        added: [],
+        updates: [{ targetId: target.id, update: caseStudy, match }],
+        runLog: { runId, review: { action, id, targetId: target.id, sourceRunId: item.runId, note: note || undefined } },
+      });
+      // A rebase skips the update when a newer snapshot retracted or removed the target; keep the item queued.
+      if (!blob.manifest.updatedIds?.includes(target.id)) {
+        return NextResponse.json(
+          { error: "Duplicate target is no longer live; the item stays in the queue.", id, targetId: target.id, runId },
+          { status: 409 },
+        );
+      }
+      const next = await updateReviewQueue(withoutItem);
+      return NextResponse.json({ ok: true, action, id, targetId: target.id, runId, blob, pending: next.items.length });
+    }
+
+    // Approve: add to a new live snapshot, then drop from the queue.
+    if (live.items.some((x) => x.id === caseStudy.id)) {
+      return NextResponse.json({ error: "A live case study already has this id.", id }, { status: 409 });
+    }
+    const runId = makeRunId();
+    const blob = await publishLiveCaseStudies({
+      runId,
+      base: live,
+      added: [appendRevision(caseStudy, { op: "approve", runId, at: new Date().toISOString(), reason: note || undefined })],
+      runLog: { runId, review: { action, id, sourceRunId: item.runId, note: note || undefined } },
+    });
+    // A rebase drops the item when a newer snapshot already has its id or a proof URL; keep it queued.
+    if (!blob.manifest.addedIds?.includes(caseStudy.id)) {
+      return NextResponse.json(
+        { error: "A newer live snapshot already has this id or proof URL; the item stays in the queue.", id, runId },
+        { status: 409 },
+      );
+    }
+    const next = await updateReviewQueue(withoutItem);
+    return NextResponse.json({ ok: true, action, id, runId, blob, pending: next.items.length });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Review action failed.", details: msg }, { status: 500 });
+  }
+}
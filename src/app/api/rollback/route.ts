@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { isAdminAuthorized } from "@/lib/adminAuth";
+import {
+  DatasetConflictError,
+  listLiveManifests,
+  readLiveDatasetFromBlob,
+  readSnapshotFromBlob,
+  rollbackLiveDataset,
+} from "@/lib/blobCaseStudies";
+import { diffCaseStudies } from "@/lib/datasetDiff";
+import { datasetStoreConfigError } from "@/lib/datasetStore";
+import { makeRunId } from "@/lib/runId";
+
+export const runtime = "nodejs";
+
+const MANIFEST_LIMIT = 30;
+
+/**
+ * GET: past manifests (newest first) and the current live runId.
+ * GET ?runId=<id>: what rolling back to that run would change (diff from the current snapshot).
+ */
+export async function GET(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const runId = (new URL(req.url).searchParams.get("runId") ?? "").trim();
+  try {
+    const live = await readLiveDatasetFromBlob({ fresh: true });
+    if (!runId) {
+      const manifests = await listLiveManifests(MANIFEST_LIMIT);
+      return NextResponse.json(
+        { currentRunId: live?.runId ?? null, manifests },
+        { headers: { "Cache-Control": "no-store" } },
+      );
+    }
+
+    const target = await readSnapshotFromBlob(runId);
+    if (!target) return NextResponse.json({ error: "Snapshot not found.", runId }, { status: 404 });
+    return NextResponse.json(
+      { currentRunId: live?.runId ?? null, runId, diff: diffCaseStudies(live?.items ?? [], target) },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Failed to read dataset history.", details: msg }, { status: 500 });
+  }
+}
+
+/**
+ * POST { runId, expectedRunId, note? }: re-publish the snapshot of `runId` as the live dataset.
+ * `expectedRunId` is the live runId the caller looked at; 409 if another run published since.
+ */
+export async function POST(req: Request) {
+  if (!isAdminAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const storeError = datasetStoreConfigError();
+  if (storeError) return NextResponse.json({ error: storeError }, { status: 500 });
+
+  let targetRunId = "";
+  let expectedRunId: string | null = null;
+  let note = "";
+  try {
+    const body = (await req.json()) as { runId?: unknown; expectedRunId?: unknown; note?: unknown };
+    targetRunId = typeof body.runId === "string" ? body.runId.trim() : "";
+    expectedRunId = typeof body.expectedRunId === "string" ? body.expectedRunId : null;
+    note = typeof body.note === "string" ? body.note.trim().slice(0, 500) : "";
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  if (!targetRunId) return NextResponse.json({ error: "runId is required." }, { status: 400 });
+  if (targetRunId === expectedRunId) {
+    return NextResponse.json({ error: "That run is already live.", runId: targetRunId }, { status: 409 });
+  }
+
+  try {
+    const runId = makeRunId();
+    const blob = await rollbackLiveDataset({ runId, targetRunId, expectedRunId, note });
+    return NextResponse.json({ ok: true, runId, rollbackOf: targetRunId, blob });
+  } catch (e) {
+    if (e instanceof DatasetConflictError) {
+      return NextResponse.json(
+        { error: "The live dataset changed. Reload and try again.", details: e.message },
+        { status: 409 },
+      );
+    }
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: "Rollback failed.", details: msg }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
-import rawCaseStudies from "@/data/case-studies.json";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
 import type { CaseStudy } from "@/lib/types";
 import { readLiveCaseStudiesFromBlob } from "@/lib/blobCaseStudies";
+import { listedCaseStudies } from "@/lib/caseStudyEdits";
 
 export const runtime = "nodejs";
 
@@ -24,8 +25,8 @@ function isAuthorized(req: Request) {
 
 async function getLatestCaseStudies(limit: number) {
   const fromBlob = await readLiveCaseStudiesFromBlob();
-  const local = rawCaseStudies as unknown as CaseStudy[];
-  const all = (fromBlob ?? local).slice().sort((a, b) => b.date.localeCompare(a.date));
+  const local = seedCaseStudies();
+  const all = listedCaseStudies(fromBlob ?? local).sort((a, b) => b.date.localeCompare(a.date));
   return all.slice(0, limit);
 }
 
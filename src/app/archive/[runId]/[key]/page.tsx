@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { readProofArchive } from "@/lib/blobProofArchive";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Archived proof | AgentProfit.ai",
+  robots: { index: false },
+};
+
+export default async function ProofArchivePage({
+  params,
+}: {
+  params: Promise<{ runId: string; key: string }>;
+}) {
+  const { runId: rawRunId, key } = await params;
+  const runId = decodeURIComponent(rawRunId);
+  const archive = await readProofArchive(runId, key);
+  if (!archive) notFound();
+  const rawHref = `/api/archive?runId=${encodeURIComponent(runId)}&key=${key}&format=html`;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-50">
+      <main className="mx-auto w-full max-w-4xl px-6 py-12">
+        <Link
+          href="/"
+          className="text-sm font-semibold text-zinc-700 underline-offset-2 hover:underline dark:text-zinc-300"
+        >
+          ← Back to case studies
+        </Link>
+
+        <header className="mt-6">
+          <div className="text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+            Archived copy
+          </div>
+          <h1 className="mt-2 break-all text-xl font-bold text-zinc-900 dark:text-zinc-50">
+            <a className="underline-offset-2 hover:underline" href={archive.url} target="_blank" rel="noreferrer">
+              {archive.url}
+            </a>
+          </h1>
+          <div className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+            Taken {archive.archivedAt.slice(0, 16).replace("T", " ")} UTC (HTTP {archive.httpStatus})
+            {archive.finalUrl ? <span className="break-all"> · redirected to {archive.finalUrl}</span> : null} ·{" "}
+            <a className="font-semibold underline-offset-2 hover:underline" href={rawHref}>
+              page source
+            </a>
+          </div>
+        </header>
+
+        <div className="mt-6 whitespace-pre-wrap rounded-2xl border border-zinc-200 bg-white p-5 text-sm leading-6 text-zinc-800 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-200">
+          {archive.text || "No readable text on this page."}
+        </div>
+      </main>
+    </div>
+  );
+}
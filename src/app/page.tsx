@@ -1,16 +1,17 @@
 import CaseStudiesTable from "@/components/CaseStudiesTable";
 import NewsletterForm from "@/components/NewsletterForm";
-import rawCaseStudies from "@/data/case-studies.json";
-import type { CaseStudy } from "@/lib/types";
-import { readLiveCaseStudiesFromBlob } from "@/lib/blobCaseStudies";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
+import { readLiveDatasetFromBlob, readSearchArtifacts } from "@/lib/blobCaseStudies";
+import { listedCaseStudies } from "@/lib/caseStudyEdits";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 export default async function Home() {
-  const fromBlob = await readLiveCaseStudiesFromBlob();
-  const local = rawCaseStudies as unknown as CaseStudy[];
-  const caseStudies = (fromBlob ?? local).slice().sort((a, b) => b.date.localeCompare(a.date));
+  const live = await readLiveDatasetFromBlob();
+  const dataset = live ?? { runId: null, items: seedCaseStudies() };
+  const searchIndex = await readSearchArtifacts(dataset);
+  const caseStudies = listedCaseStudies(dataset.items).sort((a, b) => b.date.localeCompare(a.date));
 
   return (
     <div className="min-h-screen bg-zinc-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-50">
@@ -63,7 +64,7 @@ export default async function Home() {
             </div>
           </div>
 
-          <CaseStudiesTable caseStudies={caseStudies} />
+          <CaseStudiesTable caseStudies={caseStudies} statusCounts={searchIndex.facets.status} />
 
           <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300">
             <div className="font-semibold text-zinc-900 dark:text-zinc-50">
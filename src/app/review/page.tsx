@@ -0,0 +1,34 @@
+import Link from "next/link";
+import ReviewQueue from "@/components/ReviewQueue";
+
+export const metadata = {
+  title: "Review queue - AgentProfit.ai",
+  robots: { index: false, follow: false },
+};
+
+export default function ReviewPage() {
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-50">
+      <main className="mx-auto max-w-4xl px-6 py-12">
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="text-sm text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 dark:hover:text-emerald-300"
+          >
+            &larr; Back to AgentProfit.ai
+          </Link>
+        </div>
+
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight text-emerald-700 dark:text-emerald-400">Review queue</h1>
+          <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+            New case studies staged by the scout when <code>REVIEW_MODE</code> is on. Approving publishes a new live
+            snapshot.
+          </p>
+        </header>
+
+        <ReviewQueue />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import Link from "next/link";
+import DatasetRollback from "@/components/DatasetRollback";
+
+export const metadata = {
+  title: "Dataset history - AgentProfit.ai",
+  robots: { index: false, follow: false },
+};
+
+export default function RollbackPage() {
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-50">
+      <main className="mx-auto max-w-4xl px-6 py-12">
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="text-sm text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 dark:hover:text-emerald-300"
+          >
+            &larr; Back to AgentProfit.ai
+          </Link>
+        </div>
+
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight text-emerald-700 dark:text-emerald-400">Dataset history</h1>
+          <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+            Published runs, newest first. Rolling back re-publishes an older snapshot as a new run, so it can be undone
+            the same way.
+          </p>
+        </header>
+
+        <DatasetRollback />
+      </main>
+    </div>
+  );
+}
@@ -3,9 +3,10 @@
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import type { CaseStudy } from "@/lib/types";
+import { buildPostings, caseStudySearchText, searchCaseStudies, type FacetCounts } from "@/lib/searchIndex";
 import MoneyText from "@/components/MoneyText";
 
-type SortKey = "date" | "title" | "status";
+type SortKey = "relevance" | "date" | "title" | "status";
 type SortDir = "asc" | "desc";
 type StatusFilter = "all" | "verified" | "speculation";
 
@@ -33,10 +34,20 @@ function compareNullable(a: string | undefined, b: string | undefined) {
   return (a ?? "").localeCompare(b ?? "", undefined, { sensitivity: "base" });
 }
 
-function sortCaseStudies(items: CaseStudy[], key: SortKey, dir: SortDir) {
+function sortCaseStudies(
+  items: CaseStudy[],
+  key: SortKey,
+  dir: SortDir,
+  scores: Map<string, number> | null,
+) {
   const mul = dir === "asc" ? 1 : -1;
   const copy = [...items];
   copy.sort((a, b) => {
+    if (key === "relevance") {
+      // Best match first; without index scores (wildcard search) fall back to newest first.
+      const scoreCmp = (scores?.get(b.id) ?? 0) - (scores?.get(a.id) ?? 0);
+      return scoreCmp || b.date.localeCompare(a.date);
+    }
     if (key === "date") {
       // Sort strictly by date first (newest/oldest), then use status as a tie-breaker.
       // ISO date (YYYY-MM-DD) sorts lexicographically.
@@ -80,35 +91,25 @@ function wildcardToRegex(pattern: string) {
   return new RegExp(escaped, "i");
 }
 
-function caseStudySearchText(cs: CaseStudy) {
-  const proof = (cs.proofSources ?? [])
-    .map((s) => `${s.label ?? ""} ${s.url ?? ""} ${s.kind ?? ""} ${s.excerpt ?? ""}`)
-    .join(" ");
-  return [
-    cs.id,
-    cs.date,
-    cs.title,
-    cs.summary,
-    cs.description,
-    ...(cs.tags ?? []),
-    ...(cs.profitMechanisms ?? []),
-    proof,
-  ]
-    .filter(Boolean)
-    .join(" ")
-    .toLowerCase();
+// Wildcard queries ("agent*bounty") still scan the rows; plain queries use the index, then substrings.
+function isWildcardQuery(q: string) {
+  return /[*?]/.test(q);
 }
 
 export default function CaseStudiesTable({
   caseStudies,
+  statusCounts,
 }: {
   caseStudies: CaseStudy[];
+  statusCounts: FacetCounts;
 }) {
   const router = useRouter();
   const [sortKey, setSortKey] = useState<SortKey>("date");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [query, setQuery] = useState("");
+  // Built once from the rows instead of shipping the stored postings with the page.
+  const searchIndex = useMemo(() => ({ postings: buildPostings(caseStudies) }), [caseStudies]);
 
   const filteredAndSorted = useMemo(() => {
     const normalized = caseStudies.map((cs) => ({
@@ -121,15 +122,30 @@ export default function CaseStudiesTable({
         : normalized.filter((cs) => cs.status === statusFilter);
 
     const q = query.trim();
-    const searched = !q
-      ? filtered
-      : (() => {
-          const rx = wildcardToRegex(`*${q}*`);
-          return filtered.filter((cs) => rx.test(caseStudySearchText(cs)));
-        })();
+    let scores: Map<string, number> | null = null;
+    let searched = filtered;
+    if (q && isWildcardQuery(q)) {
+      const rx = wildcardToRegex(`*${q}*`);
+      searched = filtered.filter((cs) => rx.test(caseStudySearchText(cs)));
+    } else if (q) {
+      const hits = searchCaseStudies(searchIndex, q, filtered);
+      const ranked = new Map(hits.map((hit) => [hit.id, hit.score]));
+      scores = ranked;
+      searched = filtered.filter((cs) => ranked.has(cs.id));
+    }
+
+    return sortCaseStudies(searched, sortKey, sortDir, scores);
+  }, [caseStudies, searchIndex, sortKey, sortDir, statusFilter, query]);
 
-    return sortCaseStudies(searched, sortKey, sortDir);
-  }, [caseStudies, sortKey, sortDir, statusFilter, query]);
+  function updateQuery(next: string) {
+    // Rank by relevance while searching, unless a column sort was picked.
+    if (next.trim() && !query.trim() && sortKey === "date") setSortKey("relevance");
+    if (!next.trim() && sortKey === "relevance") {
+      setSortKey("date");
+      setSortDir("desc");
+    }
+    setQuery(next);
+  }
 
   function toggleSort(key: SortKey) {
     if (key === sortKey) {
@@ -166,6 +182,7 @@ export default function CaseStudiesTable({
           <span className="font-semibold text-zinc-900 dark:text-zinc-50">
             {caseStudies.length}
           </span>
+          {sortKey === "relevance" ? " · ranked by relevance" : null}
         </div>
 
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-3">
@@ -174,7 +191,7 @@ export default function CaseStudiesTable({
             <input
               className="w-full rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 shadow-sm outline-none transition focus:border-zinc-400 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:focus:border-zinc-600 sm:w-[320px]"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => updateQuery(e.target.value)}
               placeholder="Search"
               inputMode="search"
             />
@@ -183,7 +200,7 @@ export default function CaseStudiesTable({
             <button
               type="button"
               className="inline-flex items-center justify-center rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-semibold text-zinc-700 shadow-sm transition hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-200 dark:hover:bg-zinc-900"
-              onClick={() => setQuery("")}
+              onClick={() => updateQuery("")}
             >
               Clear
             </button>
@@ -195,9 +212,9 @@ export default function CaseStudiesTable({
               value={statusFilter}
               onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
             >
-              <option value="all">All</option>
-              <option value="verified">Verified</option>
-              <option value="speculation">Speculation</option>
+              <option value="all">All ({caseStudies.length})</option>
+              <option value="verified">Verified ({statusCounts.verified ?? 0})</option>
+              <option value="speculation">Speculation ({statusCounts.speculation ?? 0})</option>
             </select>
           </label>
         </div>
@@ -0,0 +1,109 @@
+import type { CaseStudy, Revision } from "@/lib/types";
+
+const auditHref = (runId: string, file?: string) =>
+  `/api/audit?runId=${encodeURIComponent(runId)}${file ? `&file=${file}` : ""}`;
+
+const linkClasses = "font-semibold text-zinc-900 underline-offset-2 hover:underline dark:text-zinc-50";
+
+const REVISION_LABELS: Record<Revision["op"], string> = {
+  approve: "Approved in review",
+  patch: "Edited",
+  retract: "Retracted",
+  merge: "Merged a duplicate",
+  update: "Progress update",
+};
+
+function Fact({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-wrap gap-x-2">
+      <dt className="text-zinc-500 dark:text-zinc-400">{label}</dt>
+      <dd className="text-zinc-800 dark:text-zinc-200">{children}</dd>
+    </div>
+  );
+}
+
+/**
+ * Collapsible provenance and revision history of one entry. Audit links go to the admin-only
+ * /api/audit endpoint (append `&token=` to open them).
+ */
+export default function CaseStudyHistory({ cs }: { cs: CaseStudy }) {
+  const p = cs.provenance;
+  const history = p?.history ?? [];
+  const stagedSources = cs.proofSources.filter((s) => s.stageId);
+
+  return (
+    <details className="mt-8 rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+      <summary className="cursor-pointer select-none text-xs font-semibold uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+        History {history.length ? `(${history.length} revision${history.length === 1 ? "" : "s"})` : ""}
+      </summary>
+
+      <dl className="mt-4 space-y-1 text-sm">
+        {p?.runId ? (
+          <Fact label="Found by run">
+            <a className={`${linkClasses} font-mono`} href={auditHref(p.runId)}>
+              {p.runId}
+            </a>
+            {p.pipeline ? <span className="text-zinc-500 dark:text-zinc-400"> ({p.pipeline})</span> : null}
+          </Fact>
+        ) : (
+          <Fact label="Origin">Seed file, or added before provenance was recorded</Fact>
+        )}
+        {p?.model ? <Fact label="Extractor model">{p.model}</Fact> : null}
+        {p?.researchModel ? <Fact label="Research model">{p.researchModel}</Fact> : null}
+        {p?.scoutConfigVersion !== undefined ? <Fact label="Scout config">v{p.scoutConfigVersion}</Fact> : null}
+        {p?.stageIds?.length ? <Fact label="Research stages">{p.stageIds.join(", ")}</Fact> : null}
+      </dl>
+
+      {p?.runId ? (
+        <div className="mt-3 flex flex-wrap gap-3 text-xs">
+          <a className={linkClasses} href={auditHref(p.runId, "run.json")}>
+            run.json
+          </a>
+          <a className={linkClasses} href={auditHref(p.runId, "claude.json")}>
+            extractor output
+          </a>
+          <a className={linkClasses} href={auditHref(p.runId, "perplexity.json")}>
+            research output
+          </a>
+          <span className="text-zinc-500 dark:text-zinc-400">(admin token required)</span>
+        </div>
+      ) : null}
+
+      {stagedSources.length ? (
+        <ul className="mt-4 space-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+          {stagedSources.map((s) => (
+            <li key={s.url}>
+              <span className="font-mono">{s.stageId}</span> → {s.label}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {history.length ? (
+        <ol className="mt-4 space-y-3 border-t border-zinc-200 pt-4 text-sm dark:border-zinc-800">
+          {history.map((r) => (
+            <li key={`${r.runId}:${r.op}`} className="leading-6">
+              <div className="font-semibold text-zinc-900 dark:text-zinc-50">
+                {REVISION_LABELS[r.op]}
+                {r.editor ? <span className="font-normal text-zinc-600 dark:text-zinc-400"> by {r.editor}</span> : null}
+                <span className="font-normal text-zinc-500 dark:text-zinc-400"> · {r.at.slice(0, 16).replace("T", " ")}</span>
+              </div>
+              {r.reason ? <div className="text-zinc-700 dark:text-zinc-300">{r.reason}</div> : null}
+              {r.fields?.length ? (
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">Changed: {r.fields.join(", ")}</div>
+              ) : null}
+              {r.mergedFrom ? (
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Merged from <a className={linkClasses} href={`/${r.mergedFrom}`}>{r.mergedFrom}</a>
+                </div>
+              ) : null}
+              <a className={`${linkClasses} text-xs`} href={auditHref(r.runId, "run.json")}>
+                run {r.runId}
+              </a>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+    </details>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import type { LiveManifestV1 } from "@/lib/blobCaseStudies";
+import type { DatasetDiff, DiffEntry } from "@/lib/datasetDiff";
+
+type Status = "idle" | "loading" | "error";
+
+function errorFrom(data: unknown, fallback: string) {
+  if (!data || typeof data !== "object") return fallback;
+  const { error, details } = data as { error?: unknown; details?: unknown };
+  const base = typeof error === "string" ? error : fallback;
+  if (typeof details === "string") return `${base} ${details}`;
+  return base;
+}
+
+function DiffList({ label, entries, className }: { label: string; entries: DiffEntry[]; className: string }) {
+  if (!entries.length) return null;
+  return (
+    <div className="mt-3">
+      <h4 className={`text-xs font-semibold ${className}`}>
+        {label} ({entries.length})
+      </h4>
+      <ul className="mt-1 space-y-1 text-xs text-zinc-700 dark:text-zinc-300">
+        {entries.map((x) => (
+          <li key={x.id}>
+            {x.title} <span className="text-zinc-500">{x.id}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ManifestRow({
+  manifest,
+  live,
+  busy,
+  diff,
+  onDiff,
+  onRollback,
+}: {
+  manifest: LiveManifestV1;
+  live: boolean;
+  busy: boolean;
+  diff: DatasetDiff | undefined;
+  onDiff: (runId: string) => void;
+  onRollback: (runId: string) => void;
+}) {
+  const buttonClasses =
+    "cursor-pointer rounded-lg px-3 py-2 text-sm font-medium transition disabled:cursor-not-allowed disabled:opacity-60";
+  const addedIds = manifest.addedIds ?? [];
+
+  return (
+    <article className="rounded-xl border border-zinc-200 bg-white p-5 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-mono">{manifest.runId}</span>
+        {live ? (
+          <span className="rounded bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-800 dark:bg-emerald-950 dark:text-emerald-200">
+            live
+          </span>
+        ) : null}
+        {manifest.rollbackOf ? (
+          <span className="rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-950 dark:text-amber-200">
+            rollback of {manifest.rollbackOf}
+          </span>
+        ) : null}
+        {manifest.edit ? (
+          <span className="rounded bg-sky-100 px-2 py-0.5 text-xs font-medium text-sky-800 dark:bg-sky-950 dark:text-sky-200">
+            {manifest.edit.op} {manifest.edit.id}
+            {manifest.edit.duplicateId ? ` ← ${manifest.edit.duplicateId}` : ""}
+          </span>
+        ) : null}
+      </div>
+      {manifest.edit ? (
+        <div className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+          {manifest.edit.editor}: {manifest.edit.reason}
+        </div>
+      ) : null}
+      <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+        {manifest.count} case studies · {addedIds.length} added · {manifest.updatedAt.slice(0, 16).replace("T", " ")}
+      </div>
+      {addedIds.length ? (
+        <div className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">{addedIds.join(", ")}</div>
+      ) : null}
+
+      {diff ? (
+        <div className="mt-3 border-t border-zinc-200 pt-3 dark:border-zinc-800">
+          {!diff.added.length && !diff.removed.length && !diff.modified.length ? (
+            <p className="text-xs text-zinc-600 dark:text-zinc-400">Same content as the live snapshot.</p>
+          ) : null}
+          <DiffList label="Would come back" entries={diff.added} className="text-emerald-700 dark:text-emerald-400" />
+          <DiffList label="Would be removed" entries={diff.removed} className="text-red-700 dark:text-red-400" />
+          <DiffList label="Would revert edits" entries={diff.modified} className="text-amber-700 dark:text-amber-400" />
+        </div>
+      ) : null}
+
+      {!live ? (
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            onClick={() => onDiff(manifest.runId)}
+            disabled={busy}
+            className={`${buttonClasses} border border-zinc-200 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800`}
+          >
+            Diff against live
+          </button>
+          <button
+            onClick={() => onRollback(manifest.runId)}
+            disabled={busy}
+            className={`${buttonClasses} border border-red-300 text-red-700 hover:bg-red-50 dark:border-red-800 dark:text-red-300 dark:hover:bg-red-950`}
+          >
+            Roll back to this run
+          </button>
+        </div>
+      ) : null}
+    </article>
+  );
+}
+
+export default function DatasetRollback() {
+  const [token, setToken] = useState("");
+  const [manifests, setManifests] = useState<LiveManifestV1[] | null>(null);
+  const [currentRunId, setCurrentRunId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, DatasetDiff>>({});
+  const [status, setStatus] = useState<Status>("idle");
+  const [message, setMessage] = useState("");
+
+  async function load(notice = "") {
+    setStatus("loading");
+    setMessage("");
+    try {
+      const res = await fetch("/api/rollback", { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" });
+      const data: unknown = await res.json().catch(() => null);
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(errorFrom(data, "Failed to load dataset history."));
+        return;
+      }
+      const body = data as { currentRunId: string | null; manifests: LiveManifestV1[] };
+      setManifests(body.manifests ?? []);
+      setCurrentRunId(body.currentRunId);
+      setDiffs({});
+      setStatus("idle");
+      setMessage(notice);
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    }
+  }
+
+  async function showDiff(runId: string) {
+    setStatus("loading");
+    setMessage("");
+    try {
+      const res = await fetch(`/api/rollback?runId=${encodeURIComponent(runId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: "no-store",
+      });
+      const data: unknown = await res.json().catch(() => null);
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(errorFrom(data, "Failed to load the diff."));
+        return;
+      }
+      const diff = (data as { diff: DatasetDiff }).diff;
+      setDiffs((prev) => ({ ...prev, [runId]: diff }));
+      setStatus("idle");
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    }
+  }
+
+  async function rollback(runId: string) {
+    if (!window.confirm(`Make the snapshot of ${runId} the live dataset?`)) return;
+    setStatus("loading");
+    setMessage("");
+    try {
+      const res = await fetch("/api/rollback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ runId, expectedRunId: currentRunId }),
+      });
+      const data: unknown = await res.json().catch(() => null);
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(errorFrom(data, "Rollback failed."));
+        return;
+      }
+      await load(`Rolled back to ${runId} (new run ${(data as { runId: string }).runId}).`);
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          placeholder="Admin token"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          className="w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+        />
+        <button
+          onClick={() => load()}
+          disabled={!token || status === "loading"}
+          className="cursor-pointer rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {status === "loading" ? "Loading..." : "Load"}
+        </button>
+      </div>
+
+      {message ? (
+        <div
+          className={`rounded-lg px-4 py-3 text-sm ${
+            status === "error"
+              ? "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-200"
+              : "bg-emerald-50 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-200"
+          }`}
+          role="status"
+        >
+          {message}
+        </div>
+      ) : null}
+
+      {manifests && manifests.length === 0 ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">No published runs yet.</p>
+      ) : null}
+
+      {manifests?.map((m) => (
+        <ManifestRow
+          key={m.runId}
+          manifest={m}
+          live={m.runId === currentRunId}
+          busy={status === "loading"}
+          diff={diffs[m.runId]}
+          onDiff={showDiff}
+          onRollback={rollback}
+        />
+      ))}
+    </div>
+  );
+}
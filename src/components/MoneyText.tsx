@@ -1,13 +1,5 @@
 import { Fragment } from "react";
-
-// Highlight monetary amounts, including common suffixes and units.
-// Examples:
-// - $2 million
-// - $5,120 MRR
-// - $4M / $3M / $1.5M
-// - $25k-$50k
-const MONEY_RE =
-  /\$\d[\d,]*(?:\.\d+)?(?:\s*(?:thousand|million|billion|trillion)\b|\s*(?:k|m|b|K|M|B)\b)?(?:\s*(?:MRR|ARR)\b)?(?:\s*[-–]\s*\$\d[\d,]*(?:\.\d+)?(?:\s*(?:thousand|million|billion|trillion)\b|\s*(?:k|m|b|K|M|B)\b)?(?:\s*(?:MRR|ARR)\b)?)?/g;
+import { MONEY_HIGHLIGHT_RE } from "@/lib/money";
 
 function moneySpan(m: string) {
   return (
@@ -20,7 +12,7 @@ function moneySpan(m: string) {
 export default function MoneyText({ text }: { text: string }) {
   // Render plain text with any $-amounts highlighted in bold green.
   // Works with whitespace-pre-wrap to preserve newlines.
-  const matches = [...text.matchAll(MONEY_RE)];
+  const matches = [...text.matchAll(MONEY_HIGHLIGHT_RE)];
   if (!matches.length) return <>{text}</>;
 
   const out: Array<React.ReactNode> = [];
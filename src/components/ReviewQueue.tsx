@@ -0,0 +1,273 @@
+"use client";
+
+import { useState } from "react";
+import type { MoneyAmount } from "@/lib/types";
+import type { PendingReviewItem, ReviewQueueV1 } from "@/lib/blobReviewQueue";
+import MoneyText from "@/components/MoneyText";
+
+type Status = "idle" | "loading" | "error";
+type Action = "approve" | "edit" | "reject" | "merge";
+
+function errorFrom(data: unknown, fallback: string) {
+  if (!data || typeof data !== "object") return fallback;
+  const { error, details } = data as { error?: unknown; details?: unknown };
+  const base = typeof error === "string" ? error : fallback;
+  if (Array.isArray(details)) return `${base} ${details.join("; ")}`;
+  if (typeof details === "string") return `${base} ${details}`;
+  return base;
+}
+
+function ReviewCard({
+  item,
+  busy,
+  onAction,
+}: {
+  item: PendingReviewItem;
+  busy: boolean;
+  onAction: (action: Action, id: string, edits?: { title: string; summary: string; amounts: MoneyAmount[] }) => void;
+}) {
+  const cs = item.caseStudy;
+  const [title, setTitle] = useState(cs.title);
+  const [summary, setSummary] = useState(cs.summary);
+  const [amountsJson, setAmountsJson] = useState(JSON.stringify(cs.amounts ?? [], null, 2));
+  const [amountsError, setAmountsError] = useState("");
+
+  function submit(action: Action) {
+    if (action === "reject") {
+      onAction(action, cs.id);
+      return;
+    }
+    let amounts: MoneyAmount[];
+    try {
+      const parsed: unknown = JSON.parse(amountsJson);
+      if (!Array.isArray(parsed)) throw new Error("not an array");
+      amounts = parsed as MoneyAmount[];
+    } catch {
+      setAmountsError("Amounts must be a JSON array.");
+      return;
+    }
+    setAmountsError("");
+    onAction(action, cs.id, { title, summary, amounts });
+  }
+
+  const inputClasses =
+    "mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm dark:border-zinc-700 dark:bg-zinc-950";
+  const buttonClasses =
+    "cursor-pointer rounded-lg px-3 py-2 text-sm font-medium transition disabled:cursor-not-allowed disabled:opacity-60";
+
+  return (
+    <article className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+        <span>{cs.date}</span>
+        <span>·</span>
+        <span>{cs.status ?? "speculation"}</span>
+        <span>·</span>
+        <span>run {item.runId}</span>
+        {item.editedAt ? (
+          <>
+            <span>·</span>
+            <span>edited {item.editedAt.slice(0, 10)}</span>
+          </>
+        ) : null}
+      </div>
+
+      {item.duplicateOf ? (
+        <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200">
+          Possible duplicate of{" "}
+          <a
+            href={`/${encodeURIComponent(item.duplicateOf.id)}`}
+            target="_blank"
+            rel="noreferrer"
+            className="font-semibold underline-offset-2 hover:underline"
+          >
+            {item.duplicateOf.title}
+          </a>{" "}
+          <span className="text-xs">
+            (score {item.duplicateOf.score.toFixed(2)}; {item.duplicateOf.signals.join(", ")})
+          </span>
+        </div>
+      ) : null}
+
+      <label className="mt-3 block text-xs font-medium text-zinc-600 dark:text-zinc-400">
+        Title
+        <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClasses} />
+      </label>
+      <label className="mt-3 block text-xs font-medium text-zinc-600 dark:text-zinc-400">
+        Summary
+        <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={3} className={inputClasses} />
+      </label>
+
+      <p className="mt-3 whitespace-pre-line text-sm text-zinc-700 dark:text-zinc-300">{cs.description}</p>
+
+      <h3 className="mt-4 text-sm font-semibold">Proof sources</h3>
+      <ul className="mt-2 space-y-2 text-sm">
+        {cs.proofSources.map((s) => (
+          <li key={s.url}>
+            <a
+              href={s.url}
+              target="_blank"
+              rel="noreferrer"
+              className="text-emerald-700 underline-offset-2 hover:underline dark:text-emerald-400"
+            >
+              {s.label}
+            </a>
+            <span className="ml-2 text-xs text-zinc-500">{s.url}</span>
+            {s.excerpt ? (
+              <blockquote className="mt-1 border-l-2 border-zinc-200 pl-3 text-zinc-600 dark:border-zinc-700 dark:text-zinc-400">
+                <MoneyText text={s.excerpt} />
+              </blockquote>
+            ) : (
+              <div className="mt-1 text-xs text-amber-700 dark:text-amber-400">No excerpt</div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <label className="mt-4 block text-xs font-medium text-zinc-600 dark:text-zinc-400">
+        Amounts (JSON)
+        <textarea
+          value={amountsJson}
+          onChange={(e) => setAmountsJson(e.target.value)}
+          rows={6}
+          className={`${inputClasses} font-mono text-xs`}
+        />
+      </label>
+      {amountsError ? <div className="mt-1 text-xs text-red-600">{amountsError}</div> : null}
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button
+          onClick={() => submit("approve")}
+          disabled={busy}
+          className={`${buttonClasses} bg-emerald-600 text-white hover:bg-emerald-700`}
+        >
+          Approve
+        </button>
+        {item.duplicateOf ? (
+          <button
+            onClick={() => submit("merge")}
+            disabled={busy}
+            className={`${buttonClasses} border border-amber-300 text-amber-800 hover:bg-amber-50 dark:border-amber-800 dark:text-amber-200 dark:hover:bg-amber-950`}
+          >
+            Merge into existing
+          </button>
+        ) : null}
+        <button
+          onClick={() => submit("edit")}
+          disabled={busy}
+          className={`${buttonClasses} border border-zinc-200 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800`}
+        >
+          Save edits
+        </button>
+        <button
+          onClick={() => submit("reject")}
+          disabled={busy}
+          className={`${buttonClasses} border border-red-300 text-red-700 hover:bg-red-50 dark:border-red-800 dark:text-red-300 dark:hover:bg-red-950`}
+        >
+          Reject
+        </button>
+      </div>
+    </article>
+  );
+}
+
+export default function ReviewQueue() {
+  const [token, setToken] = useState("");
+  const [items, setItems] = useState<PendingReviewItem[] | null>(null);
+  const [status, setStatus] = useState<Status>("idle");
+  const [message, setMessage] = useState("");
+
+  async function load(notice = "") {
+    setStatus("loading");
+    setMessage("");
+    try {
+      const res = await fetch("/api/review", { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" });
+      const data: unknown = await res.json().catch(() => null);
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(errorFrom(data, "Failed to load the review queue."));
+        return;
+      }
+      setItems((data as ReviewQueueV1).items ?? []);
+      setStatus("idle");
+      setMessage(notice);
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    }
+  }
+
+  async function act(action: Action, id: string, edits?: { title: string; summary: string; amounts: MoneyAmount[] }) {
+    setStatus("loading");
+    setMessage("");
+    try {
+      const res = await fetch("/api/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ action, id, edits }),
+      });
+      const data: unknown = await res.json().catch(() => null);
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(errorFrom(data, "Review action failed."));
+        return;
+      }
+      const done: Record<Action, string> = {
+        approve: `Published ${id}.`,
+        merge: `Merged ${id} into the existing entry.`,
+        reject: `Rejected ${id}.`,
+        edit: `Saved ${id}.`,
+      };
+      await load(done[action]);
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          placeholder="Admin token"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          className="w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+        />
+        <button
+          onClick={() => load()}
+          disabled={!token || status === "loading"}
+          className="cursor-pointer rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {status === "loading" ? "Loading..." : "Load"}
+        </button>
+      </div>
+
+      {message ? (
+        <div
+          className={`rounded-lg px-4 py-3 text-sm ${
+            status === "error"
+              ? "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-200"
+              : "bg-emerald-50 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-200"
+          }`}
+          role="status"
+        >
+          {message}
+        </div>
+      ) : null}
+
+      {items && items.length === 0 ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">Nothing waiting for review.</p>
+      ) : null}
+
+      {items?.map((item) => (
+        <ReviewCard
+          key={`${item.caseStudy.id}-${item.editedAt ?? item.queuedAt}`}
+          item={item}
+          busy={status === "loading"}
+          onAction={act}
+        />
+      ))}
+    </div>
+  );
+}
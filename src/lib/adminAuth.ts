@@ -0,0 +1,23 @@
+/**
+ * Auth for admin endpoints (review queue, dataset maintenance).
+ *
+ * Uses ADMIN_TOKEN, falling back to CRON_TOKEN so existing deployments keep working.
+ * Accepts `Authorization: Bearer <token>` or `?token=<token>`.
+ */
+export function getAdminToken() {
+  return (process.env.ADMIN_TOKEN ?? "").trim() || (process.env.CRON_TOKEN ?? "").trim();
+}
+
+export function isAdminAuthorized(req: Request) {
+  const token = getAdminToken();
+  if (!token) return false;
+
+  const url = new URL(req.url);
+  const queryToken = url.searchParams.get("token") ?? "";
+  if (queryToken && queryToken === token) return true;
+
+  const auth = req.headers.get("authorization") ?? "";
+  if (auth.toLowerCase().startsWith("bearer ") && auth.slice(7) === token) return true;
+
+  return false;
+}
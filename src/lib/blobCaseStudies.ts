@@ -1,17 +1,42 @@
 import type { CaseStudy } from "@/lib/types";
-import { list, put } from "@vercel/blob";
+import { getDatasetStore, type DatasetStore } from "@/lib/datasetStore";
+import { FX_TABLE, FX_VERSION } from "@/lib/fx";
+import type { RejectedCandidate } from "@/lib/candidateSelection";
+import { buildRunDiff, composeRunDiffs, diffCaseStudies, type DatasetDiff, type RunDiffV1 } from "@/lib/datasetDiff";
+import { buildSearchArtifacts, type SearchArtifactsV1 } from "@/lib/searchIndex";
+import type { DatasetEdit } from "@/lib/caseStudyEdits";
+import { applyEntityUpdates, type EntityUpdate } from "@/lib/entityResolution";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import { CURRENT_SCHEMA_VERSION, migrateCaseStudies, readSnapshotDocument, toSnapshotDocument } from "@/lib/datasetSchema";
 
-type LiveManifestV1 = {
+export type LiveManifestV1 = {
   version: 1;
   updatedAt: string; // ISO timestamp
   runId: string; // e.g. 2026-01-28T14-00-00Z
   count: number;
-  snapshotUrl: string; // public blob url for the full dataset
+  snapshotUrl: string; // store url for the full dataset (readers go by runId)
   addedIds?: string[];
+  updatedIds?: string[]; // live entries that took a progress update (see entityResolution)
+  fxVersion?: string; // FX table used for amounts[].usdValue (stored under case-studies/fx/)
+  parentRunId?: string | null; // live run this snapshot was built on (null: built on the seed file)
+  rebasedFrom?: string[]; // parents this run was first built on before rebasing (see publishLiveCaseStudies)
+  rollbackOf?: string; // set when this entry re-published an older snapshot (see rollbackLiveDataset)
+  schemaVersion?: number; // dataset schema of the snapshot (absent: 1, see datasetSchema)
+  edit?: DatasetEdit; // set when this entry is an admin correction (see publishDatasetEdit)
 };
 
 const LIVE_MANIFEST_PREFIX = "case-studies/live-manifest/";
 const LATEST_POINTER_PATH = "case-studies/latest.json";
+const FX_PREFIX = "case-studies/fx/";
+const SNAPSHOT_PREFIX = "case-studies/snapshots/";
+const DIFF_PREFIX = "case-studies/diffs/";
+const SEARCH_PREFIX = "case-studies/search/";
+
+const snapshotPathFor = (runId: string) => `${SNAPSHOT_PREFIX}${encodeURIComponent(runId)}.json`;
+const manifestPathFor = (runId: string) => `${LIVE_MANIFEST_PREFIX}${encodeURIComponent(runId)}.json`;
+const diffPathFor = (runId: string) => `${DIFF_PREFIX}${encodeURIComponent(runId)}.json`;
+const searchPathFor = (runId: string) => `${SEARCH_PREFIX}${encodeURIComponent(runId)}.json`;
+const auditPrefixFor = (runId: string) => `weekly-scout/${encodeURIComponent(runId)}`;
 
 type LatestPointer = {
   manifestUrl: string;
@@ -20,140 +45,268 @@ type LatestPointer = {
   updatedAt: string;
 };
 
-async function getLatestManifestUrl(): Promise<string> {
-  // First try direct fetch of latest pointer (faster, no list() call)
-  const base = (process.env.VERCEL_BLOB_BASE_URL ?? "").trim().replace(/\/+$/, "");
-  if (base) {
-    try {
-      const pointerRes = await fetch(`${base}/${LATEST_POINTER_PATH}`, { cache: "no-store" });
-      if (pointerRes.ok) {
-        const pointer = (await pointerRes.json()) as LatestPointer;
-        if (pointer?.manifestUrl) return pointer.manifestUrl;
-      }
-    } catch {
-      // fall through to list()
-    }
+/**
+ * RunId of the live dataset: the latest pointer, else the highest runId in the manifest listing.
+ * `fresh` reads the pointer past the CDN cache (before building or checking a write).
+ */
+async function getLiveRunId(store: DatasetStore, { fresh = false }: { fresh?: boolean } = {}): Promise<string> {
+  try {
+    const pointer = await store.getJson<LatestPointer>(LATEST_POINTER_PATH, { fresh });
+    if (pointer?.runId) return pointer.runId;
+  } catch {
+    // fall through to list()
   }
 
-  // Fallback to list() if no base URL or pointer fetch failed
-  const res = await list({ prefix: LIVE_MANIFEST_PREFIX, limit: 1000 });
-  const blobs = Array.isArray(res.blobs) ? res.blobs : [];
-  const latest = blobs.reduce<{ pathname: string; url: string } | null>((acc, b) => {
-    const pathname = String((b as any)?.pathname ?? "");
-    const url = String((b as any)?.url ?? "");
-    if (!pathname || !url) return acc;
-    // Our runId is sortable lexicographically. Pick max pathname.
-    if (!acc) return { pathname, url };
-    return pathname > acc.pathname ? { pathname, url } : acc;
-  }, null);
-  return latest?.url ?? "";
-}
-
-async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
-  const res = await fetch(url, init);
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Fetch failed: ${res.status} ${text.slice(0, 300)}`);
-  }
-  return (await res.json()) as T;
+  const manifests = await store.list(LIVE_MANIFEST_PREFIX);
+  // Our runId is sortable lexicographically. Pick max pathname.
+  const latest = manifests.reduce((acc, m) => (m.pathname > acc ? m.pathname : acc), "");
+  return latest ? decodeURIComponent(latest.slice(LIVE_MANIFEST_PREFIX.length).replace(/\.json$/, "")) : "";
 }
 
 export async function readLiveManifestFromBlob(): Promise<LiveManifestV1 | null> {
-  const url = await getLatestManifestUrl();
-  if (!url) return null;
+  const store = getDatasetStore();
+  try {
+    const runId = await getLiveRunId(store);
+    return runId ? await store.getJson<LiveManifestV1>(manifestPathFor(runId)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The live snapshot together with the runId it belongs to (the parent for the next write). */
+export type LiveDataset = { runId: string | null; items: CaseStudy[] };
+
+/**
+ * Process-wide cache of the parsed live snapshot, keyed on its runId. Within POINTER_TTL_MS the
+ * cached dataset is returned as is; after that only the small pointer is re-read, and the
+ * snapshot is fetched again only when the runId changed. Publishing primes the cache.
+ */
+type LiveCache = { store: DatasetStore; runId: string; items: CaseStudy[]; checkedAt: number };
+
+export const POINTER_TTL_MS = 5_000;
+
+let liveCache: LiveCache | null = null;
+let liveRead: { store: DatasetStore; promise: Promise<LiveDataset | null> } | null = null;
+
+async function loadLiveDataset(store: DatasetStore, fresh: boolean): Promise<LiveDataset | null> {
   try {
-    // Use no-store to always get fresh manifest data
-    return await fetchJson<LiveManifestV1>(url, { cache: "no-store" });
+    const runId = await getLiveRunId(store, { fresh });
+    if (!runId) return null;
+    const cached = liveCache?.store === store && liveCache.runId === runId ? liveCache : null;
+    const items = cached
+      ? cached.items
+      : readSnapshotDocument(await store.getJson<unknown>(snapshotPathFor(runId)))?.items;
+    if (!items) return null;
+    liveCache = { store, runId, items, checkedAt: Date.now() };
+    return { runId, items };
   } catch {
     return null;
   }
 }
 
+/**
+ * Read the live dataset (cached). Pass `fresh: true` before building a write on it: that skips
+ * the pointer TTL and the CDN cache (the snapshot is still reused when the runId hasn't changed).
+ */
+export async function readLiveDatasetFromBlob({ fresh = false }: { fresh?: boolean } = {}): Promise<LiveDataset | null> {
+  const store = getDatasetStore();
+  const cached = liveCache?.store === store ? liveCache : null;
+  if (!fresh && cached && Date.now() - cached.checkedAt < POINTER_TTL_MS) {
+    return { runId: cached.runId, items: cached.items };
+  }
+  // Writers read the pointer uncached and on their own.
+  if (fresh) return loadLiveDataset(store, true);
+  // Concurrent callers (e.g. generateMetadata and the page) share one read.
+  if (liveRead?.store !== store) {
+    const promise = loadLiveDataset(store, false).finally(() => {
+      if (liveRead?.promise === promise) liveRead = null;
+    });
+    liveRead = { store, promise };
+  }
+  return liveRead.promise;
+}
+
 export async function readLiveCaseStudiesFromBlob(): Promise<CaseStudy[] | null> {
-  const manifest = await readLiveManifestFromBlob();
-  if (!manifest?.snapshotUrl) return null;
+  return (await readLiveDatasetFromBlob())?.items ?? null;
+}
+
+// Keyed on the items array, which the live cache keeps stable per runId.
+const searchCache = new WeakMap<CaseStudy[], SearchArtifactsV1>();
+
+/**
+ * Search index and facets for a dataset from `readLiveDatasetFromBlob` (or the seed fallback).
+ * Uses the copy written at publish time; builds one in-process for runs that predate it.
+ */
+export async function readSearchArtifacts({ runId, items }: LiveDataset): Promise<SearchArtifactsV1> {
+  const cached = searchCache.get(items);
+  if (cached) return cached;
+  const stored = runId ? await readStoredJson<SearchArtifactsV1>(searchPathFor(runId)) : null;
+  const artifacts = stored?.version === 1 && stored.runId === runId ? stored : buildSearchArtifacts(items, runId);
+  searchCache.set(items, artifacts);
+  return artifacts;
+}
+
+async function readStoredJson<T>(pathname: string): Promise<T | null> {
   try {
-    // Use no-store to always get fresh snapshot data
-    const items = await fetchJson<CaseStudy[]>(manifest.snapshotUrl, { cache: "no-store" });
-    return Array.isArray(items) ? items : null;
+    return await getDatasetStore().getJson<T>(pathname);
   } catch {
     return null;
   }
 }
 
+/** Newest runIds that published a live manifest (runIds sort chronologically). */
+export async function listLiveRunIds(limit: number): Promise<string[]> {
+  const manifests = await getDatasetStore().list(LIVE_MANIFEST_PREFIX);
+  return manifests
+    .map((m) => decodeURIComponent(m.pathname.slice(LIVE_MANIFEST_PREFIX.length).replace(/\.json$/, "")))
+    .filter(Boolean)
+    .sort()
+    .reverse()
+    .slice(0, limit);
+}
+
+/** Manifests of the newest runs, newest first (unreadable entries are skipped). */
+export async function listLiveManifests(limit: number): Promise<LiveManifestV1[]> {
+  const runIds = await listLiveRunIds(limit);
+  const manifests = await Promise.all(runIds.map((runId) => readStoredJson<LiveManifestV1>(manifestPathFor(runId))));
+  return manifests.filter((m): m is LiveManifestV1 => Boolean(m?.runId));
+}
+
+/** Items of a stored snapshot, migrated to the current schema. */
+export async function readSnapshotFromBlob(runId: string): Promise<CaseStudy[] | null> {
+  return readSnapshotDocument(await readStoredJson<unknown>(snapshotPathFor(runId)))?.items ?? null;
+}
+
+export type RunAudit = {
+  runId: string;
+  snapshot: CaseStudy[] | null;
+  runLog: unknown;
+  perplexityRaw: unknown;
+  claudeRaw: unknown;
+  added: CaseStudy[] | null;
+};
+
+/** Everything `writeLiveCaseStudiesToBlob` stored for one run (missing files come back null). */
+export async function readRunAudit(runId: string): Promise<RunAudit> {
+  const auditPrefix = auditPrefixFor(runId);
+  const [snapshot, runLog, perplexityRaw, claudeRaw, added] = await Promise.all([
+    readSnapshotFromBlob(runId),
+    readStoredJson<unknown>(`${auditPrefix}/run.json`),
+    readStoredJson<unknown>(`${auditPrefix}/perplexity.json`),
+    readStoredJson<unknown>(`${auditPrefix}/claude.json`),
+    readStoredJson<CaseStudy[]>(`${auditPrefix}/added.json`),
+  ]);
+  return { runId, snapshot, runLog, perplexityRaw, claudeRaw, added };
+}
+
+/** Per-run audit files written by `writeLiveCaseStudiesToBlob` (each one is optional). */
+export const AUDIT_FILES = ["run.json", "claude.json", "perplexity.json", "added.json", "rejected.json"] as const;
+
+export type AuditFile = (typeof AUDIT_FILES)[number];
+
+export async function listRunAuditFiles(runId: string): Promise<Array<{ name: string; size: number | null }>> {
+  const prefix = `${auditPrefixFor(runId)}/`;
+  const objects = await getDatasetStore().list(prefix);
+  return objects.map((o) => ({ name: o.pathname.slice(prefix.length), size: o.size ?? null }));
+}
+
+export async function readRunAuditFile(runId: string, file: AuditFile): Promise<unknown> {
+  return readStoredJson<unknown>(`${auditPrefixFor(runId)}/${file}`);
+}
+
+/**
+ * Thrown when the live pointer moved past the snapshot a write was built on. Blob has no
+ * compare-and-swap, so the check reads the pointer uncached right before the first write;
+ * overlapping runs are caught unless both pass the check before either moves the pointer.
+ */
+export class DatasetConflictError extends Error {
+  constructor(
+    readonly parentRunId: string | null,
+    readonly currentRunId: string | null,
+  ) {
+    super(`Live dataset moved: built on ${parentRunId ?? "the seed file"}, latest is ${currentRunId ?? "none"}.`);
+    this.name = "DatasetConflictError";
+  }
+}
+
 export type WriteRunArtifacts = {
   runId: string;
   all: CaseStudy[];
   added: CaseStudy[];
+  /** Live runId `all` was built on; when set, a moved pointer throws `DatasetConflictError`. */
+  parentRunId?: string | null;
+  /** Snapshot of `parentRunId`, for the per-run diff (read from the store when omitted). */
+  parentItems?: CaseStudy[];
+  rebasedFrom?: string[];
+  rollbackOf?: string;
   perplexityRaw?: unknown;
   claudeRaw?: unknown;
   runLog?: unknown;
+  rejected?: RejectedCandidate[];
+  schemaVersion?: number; // schema `all` and `added` were built with (default: current)
+  edit?: DatasetEdit;
+  updatedIds?: string[];
 };
 
 export async function writeLiveCaseStudiesToBlob({
   runId,
   all,
   added,
+  schemaVersion = CURRENT_SCHEMA_VERSION,
   perplexityRaw,
   claudeRaw,
   runLog,
+  rejected,
+  parentRunId,
+  parentItems,
+  rebasedFrom,
+  rollbackOf,
+  edit,
+  updatedIds,
 }: WriteRunArtifacts) {
+  const store = getDatasetStore();
   const now = new Date().toISOString();
 
+  if (parentRunId !== undefined) {
+    const currentRunId = (await getLiveRunId(store, { fresh: true })) || null;
+    if (currentRunId !== parentRunId) throw new DatasetConflictError(parentRunId, currentRunId);
+  }
+
+  // Snapshots are always written in the current schema.
+  if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    all = migrateCaseStudies(all, schemaVersion).items;
+    added = migrateCaseStudies(added, schemaVersion).items;
+  }
+
   // Versioned snapshot (never overwritten).
-  const snapshotPath = `case-studies/snapshots/${encodeURIComponent(runId)}.json`;
-  const snapshot = await put(snapshotPath, JSON.stringify(all), {
-    access: "public",
-    contentType: "application/json",
-    // Versioned snapshots are immutable by design.
-    addRandomSuffix: false,
-    allowOverwrite: false,
-  });
+  const snapshot = await store.putJson(snapshotPathFor(runId), toSnapshotDocument(all), { overwrite: false });
+
+  // FX table used to normalize amounts (versioned; identical content on rewrite).
+  await store.putJson(`${FX_PREFIX}${encodeURIComponent(FX_VERSION)}.json`, FX_TABLE);
 
   // Per-run audit trail (best-effort).
-  const auditPrefix = `weekly-scout/${encodeURIComponent(runId)}`;
-  const auditWrites: Array<Promise<unknown>> = [];
-  if (perplexityRaw !== undefined) {
-    auditWrites.push(
-      put(`${auditPrefix}/perplexity.json`, JSON.stringify(perplexityRaw), {
-        access: "public",
-        contentType: "application/json",
-        addRandomSuffix: false,
-        allowOverwrite: true,
-      }),
-    );
-  }
-  if (claudeRaw !== undefined) {
-    auditWrites.push(
-      put(`${auditPrefix}/claude.json`, JSON.stringify(claudeRaw), {
-        access: "public",
-        contentType: "application/json",
-        addRandomSuffix: false,
-        allowOverwrite: true,
-      }),
-    );
-  }
-  if (runLog !== undefined) {
-    auditWrites.push(
-      put(`${auditPrefix}/run.json`, JSON.stringify(runLog), {
-        access: "public",
-        contentType: "application/json",
-        addRandomSuffix: false,
-        allowOverwrite: true,
-      }),
-    );
-  }
-  if (added.length) {
-    auditWrites.push(
-      put(`${auditPrefix}/added.json`, JSON.stringify(added), {
-        access: "public",
-        contentType: "application/json",
-        addRandomSuffix: false,
-        allowOverwrite: true,
-      }),
-    );
+  const auditPrefix = auditPrefixFor(runId);
+  const audit: Array<[string, unknown]> = [
+    ["perplexity.json", perplexityRaw],
+    ["claude.json", claudeRaw],
+    ["run.json", runLog],
+    ["added.json", added.length ? added : undefined],
+    ["rejected.json", rejected?.length ? rejected : undefined],
+  ];
+  await Promise.allSettled(
+    audit.filter(([, value]) => value !== undefined).map(([name, value]) => store.putJson(`${auditPrefix}/${name}`, value)),
+  );
+
+  // What changed relative to the parent run (feeds /api/case-studies/changes).
+  if (parentRunId) {
+    const before = parentItems ?? (await readSnapshotFromBlob(parentRunId));
+    if (before) await store.putJson(diffPathFor(runId), buildRunDiff({ runId, parentRunId, before, after: all }));
   }
-  await Promise.allSettled(auditWrites);
+
+  // Inverted index + facet counts for /api/case-studies and the table.
+  const search = buildSearchArtifacts(all, runId);
+  await store.putJson(searchPathFor(runId), search);
+  searchCache.set(all, search);
 
   const manifest: LiveManifestV1 = {
     version: 1,
@@ -162,16 +315,17 @@ export async function writeLiveCaseStudiesToBlob({
     count: all.length,
     snapshotUrl: snapshot.url,
     addedIds: added.map((x) => x.id),
+    ...(updatedIds?.length ? { updatedIds } : {}),
+    fxVersion: FX_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    ...(parentRunId !== undefined ? { parentRunId } : {}),
+    ...(rebasedFrom?.length ? { rebasedFrom } : {}),
+    ...(rollbackOf ? { rollbackOf } : {}),
+    ...(edit ? { edit } : {}),
   };
 
   // Versioned manifest (avoid CDN cache invalidation problems on overwrite).
-  const manifestPath = `${LIVE_MANIFEST_PREFIX}${encodeURIComponent(runId)}.json`;
-  const manifestBlob = await put(manifestPath, JSON.stringify(manifest), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: false,
-  });
+  const manifestBlob = await store.putJson(manifestPathFor(runId), manifest, { overwrite: false });
 
   // Write latest pointer (overwritten each time for direct access)
   const latestPointer: LatestPointer = {
@@ -180,13 +334,167 @@ export async function writeLiveCaseStudiesToBlob({
     runId,
     updatedAt: now,
   };
-  await put(LATEST_POINTER_PATH, JSON.stringify(latestPointer), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-  });
+  await store.putJson(LATEST_POINTER_PATH, latestPointer);
+  liveCache = { store, runId, items: all, checkedAt: Date.now() };
 
   return { snapshotUrl: snapshot.url, manifestUrl: manifestBlob.url, manifest };
 }
 
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+/**
+ * Publish `added` (and progress `updates` to live entries) on top of `base` (normally from
+ * `readLiveDatasetFromBlob`). If another run moved the live pointer in the meantime, rebase:
+ * re-read the newer snapshot, drop additions whose id or a proof URL it already has, re-apply the
+ * updates to its copies of the targets, and try again.
+ */
+export async function publishLiveCaseStudies({
+  base,
+  added,
+  updates = [],
+  schemaVersion = CURRENT_SCHEMA_VERSION,
+  ...artifacts
+}: Omit<WriteRunArtifacts, "all" | "parentRunId" | "rebasedFrom" | "updatedIds"> & {
+  base: LiveDataset;
+  updates?: EntityUpdate[];
+}) {
+  // `base` comes from a reader and is already current; only the additions may be older.
+  if (schemaVersion < CURRENT_SCHEMA_VERSION) added = migrateCaseStudies(added, schemaVersion).items;
+  const rebasedFrom: string[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const { items, updatedIds } = applyEntityUpdates(base.items, updates, artifacts.runId);
+    const all = [...items, ...added].sort((a, b) => b.date.localeCompare(a.date));
+    try {
+      const write = await writeLiveCaseStudiesToBlob({
+        ...artifacts,
+        all,
+        added,
+        updatedIds,
+        parentRunId: base.runId,
+        parentItems: base.items,
+        rebasedFrom,
+      });
+      return { ...write, rebasedFrom };
+    } catch (e) {
+      if (!(e instanceof DatasetConflictError) || attempt >= MAX_PUBLISH_ATTEMPTS) throw e;
+      const newer = await readLiveDatasetFromBlob({ fresh: true });
+      if (!newer) throw e;
+      rebasedFrom.push(base.runId ?? "seed");
+      // The other run may have added the same story under another id; match its proofs too.
+      const newerIds = new Set(newer.items.map((x) => x.id));
+      const newerUrls = new Set(newer.items.flatMap((x) => x.proofSources.map((p) => canonicalizeUrl(p.url))));
+      const known = (x: CaseStudy) =>
+        newerIds.has(x.id) || x.proofSources.some((p) => newerUrls.has(canonicalizeUrl(p.url)));
+      added = added.filter((x) => !known(x));
+      base = newer;
+    }
+  }
+}
+
+/**
+ * Point the live dataset back at an older run. The old snapshot is re-published under a new
+ * runId (with `rollbackOf`), so the rollback is itself a manifest entry and can be undone the
+ * same way. Throws `DatasetConflictError` if the live pointer is no longer `expectedRunId`.
+ */
+export async function rollbackLiveDataset({
+  runId,
+  targetRunId,
+  expectedRunId,
+  note,
+}: {
+  runId: string;
+  targetRunId: string;
+  expectedRunId: string | null;
+  note?: string;
+}) {
+  const items = await readSnapshotFromBlob(targetRunId);
+  if (!items) throw new Error(`Snapshot not found: ${targetRunId}`);
+  return writeLiveCaseStudiesToBlob({
+    runId,
+    all: items,
+    added: [],
+    parentRunId: expectedRunId,
+    rollbackOf: targetRunId,
+    runLog: { runId, rollback: { targetRunId, fromRunId: expectedRunId, note: note || undefined } },
+  });
+}
+
+/**
+ * Publish an admin correction: `items` is `base.items` with the edit applied. Unlike
+ * `publishLiveCaseStudies` there is no rebase; a concurrent run surfaces as `DatasetConflictError`.
+ */
+export async function publishDatasetEdit({
+  runId,
+  base,
+  items,
+  edit,
+}: {
+  runId: string;
+  base: LiveDataset;
+  items: CaseStudy[];
+  edit: DatasetEdit;
+}) {
+  return writeLiveCaseStudiesToBlob({
+    runId,
+    all: items,
+    added: [],
+    parentRunId: base.runId,
+    parentItems: base.items,
+    edit,
+    runLog: { runId, edit },
+  });
+}
+
+const MAX_CHANGE_CHAIN = 50;
+
+export type DatasetChanges = {
+  since: string;
+  until: string;
+  /** `diffs`: composed from per-run diff files; `snapshots`: computed from the two snapshots. */
+  source: "diffs" | "snapshots";
+  added: CaseStudy[];
+  modified: Array<DatasetDiff["modified"][number] & { item: CaseStudy }>;
+  removed: DatasetDiff["removed"];
+};
+
+/**
+ * Walk the parent chain back from the live run to `since` and compose the per-run diffs.
+ * Runs without a diff file (or a chain that doesn't reach `since`) fall back to diffing the
+ * two snapshots. Returns null when there is no live dataset or no snapshot for `since`.
+ */
+export async function readChangesSince(since: string): Promise<DatasetChanges | null> {
+  const live = await readLiveDatasetFromBlob();
+  if (!live?.runId) return null;
+
+  let diff: DatasetDiff | null = null;
+  let source: DatasetChanges["source"] = "diffs";
+  const chain: RunDiffV1[] = [];
+  let cursor: string | null = live.runId;
+  while (cursor && cursor !== since && chain.length < MAX_CHANGE_CHAIN) {
+    const runDiff: RunDiffV1 | null = await readStoredJson<RunDiffV1>(diffPathFor(cursor));
+    if (!runDiff) break;
+    chain.push(runDiff);
+    cursor = runDiff.parentRunId;
+  }
+  if (cursor === since) diff = composeRunDiffs(chain.reverse());
+
+  if (!diff) {
+    const before = await readSnapshotFromBlob(since);
+    if (!before) return null;
+    diff = diffCaseStudies(before, live.items);
+    source = "snapshots";
+  }
+
+  const current = new Map(live.items.map((cs) => [cs.id, cs]));
+  return {
+    since,
+    until: live.runId,
+    source,
+    added: diff.added.flatMap((x) => current.get(x.id) ?? []),
+    modified: diff.modified.flatMap((x) => {
+      const item = current.get(x.id);
+      return item ? [{ ...x, item }] : [];
+    }),
+    removed: diff.removed,
+  };
+}
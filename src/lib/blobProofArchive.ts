@@ -0,0 +1,111 @@
+import { createHash } from "node:crypto";
+import type { CaseStudy, ProofSource } from "@/lib/types";
+import { getDatasetStore } from "@/lib/datasetStore";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import { extractReadableText, proofPageFor, type ProofFetcher, type ProofPages } from "@/lib/proofVerification";
+
+/**
+ * Archived copies of proof pages, taken when a run accepts an entry so its claims stay checkable
+ * after the original post is deleted. Each copy (readable text plus raw HTML) is stored with the
+ * run's audit artifacts at `weekly-scout/<runId>/proofs/<key>.json`; retention keeps the ones
+ * a retained snapshot or a pending review item links to.
+ */
+
+export type ProofArchiveV1 = {
+  version: 1;
+  url: string;
+  finalUrl?: string;
+  archivedAt: string; // ISO
+  httpStatus: number;
+  contentType: string;
+  text: string;
+  html: string;
+};
+
+/** Archive key of a page: URLs for the same page (see `canonicalizeUrl`) share one copy. */
+export const archiveKeyFor = (url: string) =>
+  createHash("sha256").update(canonicalizeUrl(url)).digest("hex").slice(0, 16);
+
+export const archivePathFor = (runId: string, key: string) =>
+  `weekly-scout/${encodeURIComponent(runId)}/proofs/${key}.json`;
+
+/** Store paths of the archived copies `items` link to. */
+export function linkedArchivePaths(items: CaseStudy[]) {
+  const paths = new Set<string>();
+  for (const s of items.flatMap((cs) => cs.proofSources)) {
+    if (s.archive) paths.add(archivePathFor(s.archive.runId, s.archive.key));
+  }
+  return paths;
+}
+
+/**
+ * Store every successfully fetched proof page of `items` and link it from the sources.
+ * Archives are public, so only pages whose every hop passed the public-address check (`publicHost`) are
+ * stored; pages that failed to fetch or came from elsewhere are left without an archive.
+ */
+export async function archiveProofPages({
+  runId,
+  items,
+  pages,
+  archivedAt = new Date().toISOString(),
+}: {
+  runId: string;
+  items: CaseStudy[];
+  pages: ProofPages;
+  archivedAt?: string;
+}): Promise<{ items: CaseStudy[]; archived: number }> {
+  const store = getDatasetStore();
+  const stored = new Set<string>(); // archive keys
+  for (const url of new Set(items.flatMap((cs) => cs.proofSources.map((s) => s.url)))) {
+    const key = archiveKeyFor(url);
+    const page = proofPageFor(pages, url);
+    if (stored.has(key) || !page || typeof page === "string" || !page.publicHost) continue;
+    if (page.status < 200 || page.status >= 300) continue;
+    const doc: ProofArchiveV1 = {
+      version: 1,
+      url,
+      ...(page.finalUrl && page.finalUrl !== url ? { finalUrl: page.finalUrl } : {}),
+      archivedAt,
+      httpStatus: page.status,
+      contentType: page.contentType,
+      text: extractReadableText(page.body, page.contentType),
+      html: page.body,
+    };
+    await store.putJson(archivePathFor(runId, key), doc, { overwrite: true });
+    stored.add(key);
+  }
+
+  const link = (s: ProofSource): ProofSource => {
+    const key = archiveKeyFor(s.url);
+    return stored.has(key) ? { ...s, archive: { runId, key, archivedAt } } : s;
+  };
+  return {
+    items: items.map((cs) => ({ ...cs, proofSources: cs.proofSources.map(link) })),
+    archived: stored.size,
+  };
+}
+
+export async function readProofArchive(runId: string, key: string): Promise<ProofArchiveV1 | null> {
+  if (!/^[0-9a-f]{16}$/.test(key)) return null;
+  try {
+    return await getDatasetStore().getJson<ProofArchiveV1>(archivePathFor(runId, key));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serves the pages a run archived, for replaying its proof checks offline. Pages it didn't archive
+ * come back as 404s, which count as failed fetches rather than missing excerpts.
+ */
+export function createArchiveProofFetcher(runId: string): ProofFetcher {
+  return {
+    backend: "archive",
+    async fetch(url) {
+      const doc = await readProofArchive(runId, archiveKeyFor(url));
+      if (!doc) return { status: 404, contentType: "text/plain", body: "" };
+      const { httpStatus: status, contentType, html: body, finalUrl } = doc;
+      return { status, contentType, body, finalUrl, publicHost: true };
+    },
+  };
+}
@@ -0,0 +1,256 @@
+import type { CaseStudy, ProofSource } from "@/lib/types";
+import { getDatasetStore, type DatasetStore } from "@/lib/datasetStore";
+import { POINTER_TTL_MS } from "@/lib/blobCaseStudies";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import {
+  checkExcerptOnPage,
+  fetchProofPages,
+  proofPageFor,
+  type FetchedPage,
+  type ProofFetcher,
+} from "@/lib/proofVerification";
+
+/**
+ * Link health of live proof sources, kept next to the dataset rather than in snapshots so a
+ * re-check doesn't publish a run. The recheck-proofs cron re-fetches a batch of entries per
+ * call (least recently checked first) and opens a flag on entries whose proof disappeared.
+ */
+
+export type ProofHealthStatus =
+  | "ok"
+  | "moved" // redirects elsewhere but still resolves
+  | "excerpt-missing" // page is up, but an excerpt that used to be there is gone
+  | "gone" // 404 / 410
+  | "unreachable"; // network error, timeout, 403, 5xx
+
+export type ProofHealth = {
+  status: ProofHealthStatus;
+  lastCheckedAt: string; // ISO
+  since: string; // ISO, first check with the current status
+  failures: number; // consecutive checks that were not ok / moved
+  httpStatus?: number;
+  finalUrl?: string; // redirect target when moved
+  excerptFound?: boolean; // sources with an excerpt
+  score?: number;
+  error?: string;
+};
+
+/** Open while at least one proof of the entry has disappeared; removed once they recover. */
+export type ProofFlag = {
+  openedAt: string; // ISO
+  urls: string[];
+  reason: string;
+};
+
+export type EntryProofHealth = {
+  lastCheckedAt: string; // ISO
+  sources: Record<string, ProofHealth>; // by proof URL
+  flag?: ProofFlag;
+};
+
+export type ProofHealthV1 = {
+  version: 1;
+  updatedAt: string; // ISO
+  revision?: number; // bumped on every write (absent: 0)
+  entries: Record<string, EntryProofHealth>; // by case study id
+};
+
+export type ProofRecheck = {
+  checkedIds: string[];
+  byStatus: Partial<Record<ProofHealthStatus, number>>;
+  flagsOpened: string[];
+  flagsClosed: string[];
+};
+
+const HEALTH_PATH = "case-studies/health/latest.json";
+
+/** Unreachable is often a bot block or an outage, so it only flags after this many checks in a row. */
+export const UNREACHABLE_FLAG_AFTER = 3;
+
+const MAX_HEALTH_WRITE_ATTEMPTS = 3;
+
+/** Thrown when the health record was written since it was read (a re-read, not a compare-and-swap). */
+export class ProofHealthConflictError extends Error {
+  constructor(
+    readonly expectedRevision: number,
+    readonly currentRevision: number,
+  ) {
+    super(`Proof health moved: read revision ${expectedRevision}, latest is ${currentRevision}.`);
+    this.name = "ProofHealthConflictError";
+  }
+}
+
+function toHealth(doc: ProofHealthV1 | null): ProofHealthV1 {
+  return doc && doc.entries && typeof doc.entries === "object"
+    ? doc
+    : { version: 1, updatedAt: new Date(0).toISOString(), entries: {} };
+}
+
+/**
+ * Process-wide cache of the health record, like the live dataset's: reused for POINTER_TTL_MS,
+ * with concurrent readers (the list API, entry pages) sharing one fetch. Writes prime it.
+ */
+let healthCache: { store: DatasetStore; doc: ProofHealthV1; checkedAt: number } | null = null;
+let healthRead: { store: DatasetStore; promise: Promise<ProofHealthV1> } | null = null;
+
+async function loadProofHealth(store: DatasetStore, fresh: boolean) {
+  try {
+    const doc = toHealth(await store.getJson<ProofHealthV1>(HEALTH_PATH, { fresh }));
+    healthCache = { store, doc, checkedAt: Date.now() };
+    return doc;
+  } catch {
+    return toHealth(null);
+  }
+}
+
+/** The health record (cached). `fresh` skips the cache and the CDN, for writers. */
+export async function readProofHealth({ fresh = false }: { fresh?: boolean } = {}): Promise<ProofHealthV1> {
+  const store = getDatasetStore();
+  const cached = healthCache?.store === store ? healthCache : null;
+  if (!fresh && cached && Date.now() - cached.checkedAt < POINTER_TTL_MS) return cached.doc;
+  if (fresh) return loadProofHealth(store, true);
+  if (healthRead?.store !== store) {
+    const promise = loadProofHealth(store, false).finally(() => {
+      if (healthRead?.promise === promise) healthRead = null;
+    });
+    healthRead = { store, promise };
+  }
+  return healthRead.promise;
+}
+
+/**
+ * Write `entries` as the next revision. With `expectedRevision`, a record written in the meantime
+ * throws `ProofHealthConflictError`.
+ */
+export async function writeProofHealth(
+  entries: Record<string, EntryProofHealth>,
+  { expectedRevision }: { expectedRevision?: number } = {},
+) {
+  const store = getDatasetStore();
+  const current = (await store.getJson<ProofHealthV1>(HEALTH_PATH, { fresh: true }))?.revision ?? 0;
+  if (expectedRevision !== undefined && current !== expectedRevision) {
+    throw new ProofHealthConflictError(expectedRevision, current);
+  }
+  const doc: ProofHealthV1 = { version: 1, updatedAt: new Date().toISOString(), revision: current + 1, entries };
+  await store.putJson(HEALTH_PATH, doc, { overwrite: true });
+  healthCache = { store, doc, checkedAt: Date.now() };
+  return doc;
+}
+
+/**
+ * Store the entries a recheck produced on top of the current record, so overlapping rechecks
+ * keep each other's results: entries not in `liveIds` are dropped, `checked` replaces its ids,
+ * and the merge is redone on a fresh read if another recheck wrote in between.
+ */
+export async function saveProofRecheck({
+  liveIds,
+  checked,
+}: {
+  liveIds: Set<string>;
+  checked: Record<string, EntryProofHealth>;
+}) {
+  for (let attempt = 1; ; attempt++) {
+    // Read errors propagate here, so a failed read never wipes the record.
+    const current = toHealth(await getDatasetStore().getJson<ProofHealthV1>(HEALTH_PATH, { fresh: true }));
+    const kept = Object.entries(current.entries).filter(([id]) => liveIds.has(id));
+    const entries = { ...Object.fromEntries(kept), ...checked };
+    try {
+      return await writeProofHealth(entries, { expectedRevision: current.revision ?? 0 });
+    } catch (e) {
+      if (!(e instanceof ProofHealthConflictError) || attempt >= MAX_HEALTH_WRITE_ATTEMPTS) throw e;
+    }
+  }
+}
+
+const sameUrl = (a: string, b: string) => canonicalizeUrl(a) === canonicalizeUrl(b);
+
+function classify(source: ProofSource, page: FetchedPage | string, prev: ProofHealth | undefined, at: string) {
+  if (typeof page === "string") return { status: "unreachable" as const, error: page };
+  const httpStatus = page.status;
+  if (httpStatus === 404 || httpStatus === 410) return { status: "gone" as const, httpStatus };
+  if (httpStatus < 200 || httpStatus >= 300) return { status: "unreachable" as const, httpStatus };
+
+  const moved = page.finalUrl && !sameUrl(page.finalUrl, source.url) ? page.finalUrl : undefined;
+  const base = { httpStatus, ...(moved ? { finalUrl: moved } : {}) };
+  if (!source.excerpt) return { status: moved ? ("moved" as const) : ("ok" as const), ...base };
+
+  const check = checkExcerptOnPage(source.excerpt, page, at, source.url);
+  const excerptFound = check.status === "found";
+  // Only an excerpt that was once on the page can go missing (many pages never render it server-side).
+  const wasFound = source.check?.status === "found" || prev?.excerptFound || prev?.status === "excerpt-missing";
+  const status = !excerptFound && wasFound ? "excerpt-missing" : moved ? "moved" : "ok";
+  return { status: status as ProofHealthStatus, ...base, excerptFound, score: check.score };
+}
+
+function disappeared(h: ProofHealth) {
+  if (h.status === "gone" || h.status === "excerpt-missing") return true;
+  return h.status === "unreachable" && h.failures >= UNREACHABLE_FLAG_AFTER;
+}
+
+/** Entries to check next: never-checked first, then the least recently checked. */
+export function pickRecheckBatch(items: CaseStudy[], health: ProofHealthV1, size: number) {
+  const lastChecked = (cs: CaseStudy) => health.entries[cs.id]?.lastCheckedAt ?? "";
+  return items
+    .filter((cs) => !cs.retracted)
+    .sort((a, b) => lastChecked(a).localeCompare(lastChecked(b)))
+    .slice(0, size);
+}
+
+/**
+ * Re-fetch every proof URL of `batch`, update their health records and open or close flags.
+ * Returns the new entries map (ids no longer in `items` are dropped) and a summary.
+ */
+export async function recheckProofs({
+  items,
+  batch,
+  health,
+  fetcher,
+}: {
+  items: CaseStudy[];
+  batch: CaseStudy[];
+  health: ProofHealthV1;
+  fetcher: ProofFetcher;
+}): Promise<{ entries: Record<string, EntryProofHealth>; summary: ProofRecheck }> {
+  const liveIds = new Set(items.map((cs) => cs.id));
+  const entries: Record<string, EntryProofHealth> = Object.fromEntries(
+    Object.entries(health.entries).filter(([id]) => liveIds.has(id)),
+  );
+  const summary: ProofRecheck = { checkedIds: [], byStatus: {}, flagsOpened: [], flagsClosed: [] };
+
+  const pages = await fetchProofPages(batch.flatMap((cs) => cs.proofSources.map((s) => s.url)), fetcher);
+
+  const at = new Date().toISOString();
+  for (const cs of batch) {
+    const prevEntry = entries[cs.id];
+    const sources: Record<string, ProofHealth> = {};
+    for (const s of cs.proofSources) {
+      const prev = prevEntry?.sources[s.url];
+      const next = classify(s, proofPageFor(pages, s.url) ?? "Not fetched", prev, at);
+      const healthy = next.status === "ok" || next.status === "moved";
+      sources[s.url] = {
+        ...next,
+        lastCheckedAt: at,
+        since: prev && prev.status === next.status ? prev.since : at,
+        failures: healthy ? 0 : (prev?.failures ?? 0) + 1,
+      };
+      summary.byStatus[next.status] = (summary.byStatus[next.status] ?? 0) + 1;
+    }
+
+    const lost = Object.entries(sources).filter(([, h]) => disappeared(h));
+    let flag: ProofFlag | undefined;
+    if (lost.length) {
+      flag = {
+        openedAt: prevEntry?.flag?.openedAt ?? at,
+        urls: lost.map(([url]) => url),
+        reason: lost.map(([url, h]) => `${url}: ${h.status}${h.httpStatus ? ` (HTTP ${h.httpStatus})` : ""}`).join("; "),
+      };
+      if (!prevEntry?.flag) summary.flagsOpened.push(cs.id);
+    } else if (prevEntry?.flag) {
+      summary.flagsClosed.push(cs.id);
+    }
+
+    entries[cs.id] = { lastCheckedAt: at, sources, ...(flag ? { flag } : {}) };
+    summary.checkedIds.push(cs.id);
+  }
+  return { entries, summary };
+}
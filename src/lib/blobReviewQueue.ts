@@ -0,0 +1,191 @@
+import type { CaseStudy, MoneyAmount } from "@/lib/types";
+import { getDatasetStore } from "@/lib/datasetStore";
+import { FX_VERSION, isSupportedCurrency, toUsd } from "@/lib/fx";
+import { CURRENT_SCHEMA_VERSION, migrateCaseStudies } from "@/lib/datasetSchema";
+import type { EntityMatch, PossibleDuplicate } from "@/lib/entityResolution";
+
+/**
+ * Pending-review collection for newly scouted case studies.
+ *
+ * With REVIEW_MODE=speculation (or `all`) the cron pipelines stage new items here
+ * instead of publishing them. Reviewers approve, edit or reject them from /review.
+ */
+
+export type ReviewMode = "off" | "speculation" | "all";
+
+export type PendingReviewItem = {
+  caseStudy: CaseStudy;
+  runId: string; // scout run that produced the item
+  queuedAt: string; // ISO
+  editedAt?: string; // ISO, last reviewer edit
+  duplicateOf?: EntityMatch; // likely repeat of this entry (approve keeps it separate, merge folds it in)
+};
+
+export type ReviewQueueV1 = {
+  version: 1;
+  updatedAt: string; // ISO
+  schemaVersion?: number; // dataset schema of the queued case studies (absent: 1)
+  revision?: number; // bumped on every write (absent: 0)
+  items: PendingReviewItem[];
+};
+
+export type ReviewEdits = {
+  title?: string;
+  summary?: string;
+  amounts?: MoneyAmount[];
+};
+
+const PREFIX = "case-studies/review/";
+const QUEUE_PATH = `${PREFIX}pending.json`;
+const REJECTED_PREFIX = `${PREFIX}rejected/`;
+const MAX_QUEUE_WRITE_ATTEMPTS = 3;
+
+/**
+ * Thrown when the queue was written since it was read. Like `DatasetConflictError`, this is a
+ * re-read right before the write, not a compare-and-swap.
+ */
+export class ReviewQueueConflictError extends Error {
+  constructor(
+    readonly expectedRevision: number,
+    readonly currentRevision: number,
+  ) {
+    super(`Review queue moved: read revision ${expectedRevision}, latest is ${currentRevision}.`);
+    this.name = "ReviewQueueConflictError";
+  }
+}
+
+export function reviewModeFromEnv(): ReviewMode {
+  const mode = (process.env.REVIEW_MODE ?? "").trim().toLowerCase();
+  return mode === "speculation" || mode === "all" ? mode : "off";
+}
+
+/**
+ * Split a run's accepted items into those published now and those staged for review.
+ */
+export function splitForReview(added: CaseStudy[], mode: ReviewMode) {
+  if (mode === "off") return { publish: added, queue: [] as CaseStudy[] };
+  if (mode === "all") return { publish: [] as CaseStudy[], queue: added };
+  return {
+    publish: added.filter((x) => x.status === "verified"),
+    queue: added.filter((x) => x.status !== "verified"),
+  };
+}
+
+function toQueue(queue: ReviewQueueV1 | null): ReviewQueueV1 {
+  if (!queue || !Array.isArray(queue.items)) return { version: 1, updatedAt: new Date(0).toISOString(), items: [] };
+  // Items can sit in the queue across schema changes; migrate them like snapshots.
+  const { items } = migrateCaseStudies(
+    queue.items.map((x) => x.caseStudy),
+    queue.schemaVersion ?? 1,
+  );
+  return {
+    ...queue,
+    schemaVersion: Math.max(queue.schemaVersion ?? 1, CURRENT_SCHEMA_VERSION),
+    items: queue.items.map((x, i) => ({ ...x, caseStudy: items[i] })),
+  };
+}
+
+/** The queue, or an empty one when it is missing or unreadable. `fresh` bypasses CDN caches. */
+export async function readReviewQueue({ fresh = false }: { fresh?: boolean } = {}): Promise<ReviewQueueV1> {
+  try {
+    return toQueue(await getDatasetStore().getJson<ReviewQueueV1>(QUEUE_PATH, { fresh }));
+  } catch {
+    return toQueue(null);
+  }
+}
+
+/**
+ * Write `items` as the next revision. With `expectedRevision` (the revision the items were built
+ * from), a queue written in the meantime throws `ReviewQueueConflictError`.
+ */
+export async function writeReviewQueue(
+  items: PendingReviewItem[],
+  { expectedRevision }: { expectedRevision?: number } = {},
+) {
+  const store = getDatasetStore();
+  const current = (await store.getJson<ReviewQueueV1>(QUEUE_PATH, { fresh: true }))?.revision ?? 0;
+  if (expectedRevision !== undefined && current !== expectedRevision) {
+    throw new ReviewQueueConflictError(expectedRevision, current);
+  }
+  const queue: ReviewQueueV1 = {
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    revision: current + 1,
+    items,
+  };
+  await store.putJson(QUEUE_PATH, queue);
+  return queue;
+}
+
+/**
+ * Read-modify-write the queue: `change` maps the current items to the new list, and is re-run on a
+ * fresh read when another writer (a cron run or a reviewer) got in between. Read errors are thrown
+ * rather than treated as an empty queue, so a failed read never wipes it.
+ */
+export async function updateReviewQueue(change: (items: PendingReviewItem[]) => PendingReviewItem[]) {
+  for (let attempt = 1; ; attempt++) {
+    const queue = toQueue(await getDatasetStore().getJson<ReviewQueueV1>(QUEUE_PATH, { fresh: true }));
+    try {
+      return await writeReviewQueue(change(queue.items), { expectedRevision: queue.revision ?? 0 });
+    } catch (e) {
+      if (!(e instanceof ReviewQueueConflictError) || attempt >= MAX_QUEUE_WRITE_ATTEMPTS) throw e;
+    }
+  }
+}
+
+/**
+ * Append a run's items and possible duplicates to the queue (skipping ids that are already pending).
+ */
+export async function enqueueForReview({
+  runId,
+  items,
+  duplicates = [],
+}: {
+  runId: string;
+  items: CaseStudy[];
+  duplicates?: PossibleDuplicate[];
+}) {
+  if (!items.length && !duplicates.length) return null;
+  const queuedAt = new Date().toISOString();
+  const staged: PendingReviewItem[] = [
+    ...items.map((caseStudy) => ({ caseStudy, runId, queuedAt })),
+    ...duplicates.map(({ caseStudy, match }) => ({ caseStudy, runId, queuedAt, duplicateOf: match })),
+  ];
+  return updateReviewQueue((pending) => {
+    const pendingIds = new Set(pending.map((x) => x.caseStudy.id));
+    return [...pending, ...staged.filter((x) => !pendingIds.has(x.caseStudy.id))];
+  });
+}
+
+/**
+ * Keep a copy of rejected items so reviewer decisions can be audited later.
+ */
+export async function archiveRejectedReviewItem(item: PendingReviewItem, note: string) {
+  const path = `${REJECTED_PREFIX}${encodeURIComponent(item.caseStudy.id)}.json`;
+  await getDatasetStore().putJson(path, { ...item, rejectedAt: new Date().toISOString(), note });
+}
+
+/**
+ * Apply reviewer edits. Amounts are re-normalized to USD with the current FX table.
+ */
+export function applyReviewEdits(cs: CaseStudy, edits: ReviewEdits): CaseStudy {
+  const next: CaseStudy = { ...cs };
+  if (typeof edits.title === "string" && edits.title.trim()) next.title = edits.title.trim();
+  if (typeof edits.summary === "string" && edits.summary.trim()) next.summary = edits.summary.trim();
+  if (Array.isArray(edits.amounts)) {
+    next.amounts = edits.amounts.map((a) => {
+      const usdValue = isSupportedCurrency(a.currency) ? toUsd(a.value, a.currency) : null;
+      return {
+        value: a.value,
+        currency: a.currency,
+        period: a.period,
+        metric: a.metric,
+        text: a.text,
+        ...(a.sourceUrl ? { sourceUrl: a.sourceUrl } : {}),
+        ...(usdValue !== null ? { usdValue, fxVersion: FX_VERSION } : {}),
+      };
+    });
+  }
+  return next;
+}
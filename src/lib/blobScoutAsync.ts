@@ -1,4 +1,6 @@
-import { list, put } from "@vercel/blob";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import { getDatasetStore } from "@/lib/datasetStore";
+import { DEFAULT_RESEARCH_STAGES } from "@/lib/scoutConfig";
 
 /** Research provider type (kept for backwards compatibility with V2 jobs in blob storage) */
 export type ResearchProvider = "perplexity" | "grok" | "youtube";
@@ -57,6 +59,8 @@ export type PendingStage = {
   error?: string;
   /** When this stage completed */
   completedAt?: string;
+  /** How many times this stage has been started (retries included) */
+  attempts?: number;
 };
 
 /**
@@ -75,6 +79,8 @@ export type PendingScoutJobV2 = {
   mode?: "strict" | "speculation";
   /** All research stages in this job */
   stages: PendingStage[];
+  /** Set once the parser has run on the aggregated sources */
+  finalizedAt?: string; // ISO
 };
 
 /**
@@ -85,15 +91,6 @@ export type PendingScoutJob = PendingPerplexityAsyncJobV1 | PendingScoutJobV2;
 const PREFIX = "weekly-scout/perplexity-async/";
 const LATEST_PATH = `${PREFIX}latest.json`;
 
-async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
-  const res = await fetch(url, init);
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Fetch failed: ${res.status} ${text.slice(0, 300)}`);
-  }
-  return (await res.json()) as T;
-}
-
 /**
  * Check if a job is V2 format.
  */
@@ -112,21 +109,9 @@ export function isV1Job(job: PendingScoutJob): job is PendingPerplexityAsyncJobV
  * Write a new V2 scout job (creates both run-specific and latest files).
  */
 export async function writeLatestScoutJob(job: PendingScoutJobV2) {
-  const runPath = `${PREFIX}${encodeURIComponent(job.runId)}.json`;
-  const runBlob = await put(runPath, JSON.stringify(job), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: false,
-  });
-
-  const latestBlob = await put(LATEST_PATH, JSON.stringify(job), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-  });
-
+  const store = getDatasetStore();
+  const runBlob = await store.putJson(`${PREFIX}${encodeURIComponent(job.runId)}.json`, job, { overwrite: false });
+  const latestBlob = await store.putJson(LATEST_PATH, job);
   return { runUrl: runBlob.url, latestUrl: latestBlob.url };
 }
 
@@ -134,12 +119,7 @@ export async function writeLatestScoutJob(job: PendingScoutJobV2) {
  * Update the latest scout job (V2).
  */
 export async function updateLatestScoutJob(job: PendingScoutJobV2) {
-  const latestBlob = await put(LATEST_PATH, JSON.stringify(job), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-  });
+  const latestBlob = await getDatasetStore().putJson(LATEST_PATH, job);
   return { latestUrl: latestBlob.url };
 }
 
@@ -147,22 +127,8 @@ export async function updateLatestScoutJob(job: PendingScoutJobV2) {
  * Read the latest scout job (supports both V1 and V2).
  */
 export async function readLatestScoutJob(): Promise<PendingScoutJob | null> {
-  const base = (process.env.VERCEL_BLOB_BASE_URL ?? "").trim().replace(/\/+$/, "");
-  if (base) {
-    try {
-      return await fetchJson<PendingScoutJob>(`${base}/${LATEST_PATH}`, { cache: "no-store" });
-    } catch {
-      // fall through
-    }
-  }
-
   try {
-    const res = await list({ prefix: PREFIX, limit: 1000 });
-    const blobs = Array.isArray(res.blobs) ? res.blobs : [];
-    const latest = blobs.find((b) => String((b as any)?.pathname ?? "") === LATEST_PATH);
-    const url = String((latest as any)?.url ?? "");
-    if (!url) return null;
-    return await fetchJson<PendingScoutJob>(url, { cache: "no-store" });
+    return await getDatasetStore().getJson<PendingScoutJob>(LATEST_PATH);
   } catch {
     return null;
   }
@@ -176,21 +142,9 @@ export async function readLatestScoutJob(): Promise<PendingScoutJob | null> {
  * @deprecated Use writeLatestScoutJob for new jobs
  */
 export async function writeLatestPerplexityAsyncJob(job: PendingPerplexityAsyncJobV1) {
-  const runPath = `${PREFIX}${encodeURIComponent(job.runId)}.json`;
-  const runBlob = await put(runPath, JSON.stringify(job), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: false,
-  });
-
-  const latestBlob = await put(LATEST_PATH, JSON.stringify(job), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-  });
-
+  const store = getDatasetStore();
+  const runBlob = await store.putJson(`${PREFIX}${encodeURIComponent(job.runId)}.json`, job, { overwrite: false });
+  const latestBlob = await store.putJson(LATEST_PATH, job);
   return { runUrl: runBlob.url, latestUrl: latestBlob.url };
 }
 
@@ -198,12 +152,7 @@ export async function writeLatestPerplexityAsyncJob(job: PendingPerplexityAsyncJ
  * @deprecated Use updateLatestScoutJob for new jobs
  */
 export async function updateLatestPerplexityAsyncJob(job: PendingPerplexityAsyncJobV1) {
-  const latestBlob = await put(LATEST_PATH, JSON.stringify(job), {
-    access: "public",
-    contentType: "application/json",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-  });
+  const latestBlob = await getDatasetStore().putJson(LATEST_PATH, job);
   return { latestUrl: latestBlob.url };
 }
 
@@ -246,7 +195,7 @@ export function convertV1ToV2(v1: PendingPerplexityAsyncJobV1): PendingScoutJobV
 }
 
 /**
- * Get all sources from all completed stages, deduplicated by URL.
+ * Get all sources from all completed stages, deduplicated by canonical URL (the first stage's copy is kept).
  */
 export function aggregateStageSources(stages: PendingStage[]): StageSource[] {
   const seenUrls = new Set<string>();
@@ -254,7 +203,7 @@ export function aggregateStageSources(stages: PendingStage[]): StageSource[] {
 
   // Sort by stage priority (stageId order in DEFAULT_RESEARCH_STAGES)
   const sortedStages = [...stages].sort((a, b) => {
-    const order = ["grok-x-search", "youtube-podcasts", "hackathon", "indie-revenue", "youtube-case-study", "news-roundup"];
+    const order = DEFAULT_RESEARCH_STAGES.map((s) => s.stageId);
     const aIdx = order.indexOf(a.stageId);
     const bIdx = order.indexOf(b.stageId);
     return (aIdx === -1 ? 999 : aIdx) - (bIdx === -1 ? 999 : bIdx);
@@ -263,8 +212,9 @@ export function aggregateStageSources(stages: PendingStage[]): StageSource[] {
   for (const stage of sortedStages) {
     if (stage.status !== "completed" || !stage.sources) continue;
     for (const source of stage.sources) {
-      if (seenUrls.has(source.url)) continue;
-      seenUrls.add(source.url);
+      const key = canonicalizeUrl(source.url);
+      if (seenUrls.has(key)) continue;
+      seenUrls.add(key);
       sources.push(source);
     }
   }
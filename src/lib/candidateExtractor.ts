@@ -0,0 +1,324 @@
+import { jsonrepair } from "jsonrepair";
+import {
+  CANDIDATE_LIST_SCHEMA,
+  checkCandidates,
+  formatCandidateErrors,
+  type CandidateCheck,
+  type CaseStudyCandidate,
+} from "@/lib/candidateSchema";
+import { hasMoneyAmount } from "@/lib/money";
+import {
+  buildCandidateRepairPrompt,
+  buildClaudeSystemPrompt,
+  buildClaudeUserPrompt,
+  type ScoutMode,
+} from "@/lib/scoutConfig";
+
+/**
+ * Turns research sources into raw case-study candidates with an LLM.
+ *
+ * Every backend gets the same prompts (`buildClaudeSystemPrompt` / `buildClaudeUserPrompt`) and
+ * is asked for structured output matching `CANDIDATE_LIST_SCHEMA`. Items that fail the schema get
+ * one repair round-trip with their field errors; `selectCaseStudyCandidates` then applies policy.
+ * The backend is picked per run (`?extractor=` or EXTRACTOR_BACKEND) and recorded in the run log.
+ */
+
+export type ExtractorBackend = "anthropic" | "openai" | "stub";
+
+export type ExtractionSource = { title: string; url: string; date?: string; snippet?: string; stageId?: string };
+
+export type ExtractionRequest = {
+  system: string;
+  user: string;
+  /** The sources the prompt was built from (only the stub reads them directly). */
+  sources: ExtractionSource[];
+  maxItems: number;
+};
+
+export type ExtractionUsage = { inputTokens?: number; outputTokens?: number };
+
+export type ExtractionResult = {
+  candidates: unknown[];
+  usage?: ExtractionUsage;
+};
+
+export type ExtractionOutcome = {
+  /** Schema-valid candidates (first pass plus repaired items). */
+  candidates: CaseStudyCandidate[];
+  /** Items still invalid after the repair round-trip. */
+  invalid: CandidateCheck["invalid"];
+  usage: ExtractionUsage;
+  schema: {
+    errors: string[];
+    repairAttempted: boolean;
+    repairError?: string;
+    repairedCount: number;
+    discarded: string[];
+  };
+};
+
+export interface CandidateExtractor {
+  backend: ExtractorBackend;
+  model: string;
+  /** Env var the backend needs, or "" when it runs without one. */
+  keyEnv: string;
+  extract(req: ExtractionRequest): Promise<ExtractionResult>;
+}
+
+export const EXTRACTOR_BACKENDS: ExtractorBackend[] = ["anthropic", "openai", "stub"];
+
+function extractJsonArray(text: string) {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start === -1 || end === -1 || end <= start) throw new Error("Model did not return a JSON array.");
+  return text.slice(start, end + 1);
+}
+
+function candidatesFrom(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  const list = value && typeof value === "object" ? (value as { candidates?: unknown }).candidates : undefined;
+  return Array.isArray(list) ? list : null;
+}
+
+/** Structured output is `{ candidates: [...] }`; plain-text answers fall back to the first JSON array. */
+function parseCandidateOutput(text: string): unknown[] {
+  const trimmed = text.trim();
+  try {
+    const list = candidatesFrom(JSON.parse(trimmed));
+    if (list) return list;
+  } catch {
+    // fall through
+  }
+  const raw = extractJsonArray(trimmed);
+  let arr: unknown;
+  try {
+    arr = JSON.parse(raw);
+  } catch {
+    // Smaller models sometimes produce malformed JSON (unescaped quotes, trailing commas).
+    // Attempt to repair before giving up.
+    arr = JSON.parse(jsonrepair(raw));
+  }
+  if (!Array.isArray(arr)) throw new Error("Model output JSON was not an array.");
+  return arr;
+}
+
+const SUBMIT_TOOL = "submit_case_studies";
+
+function createAnthropicExtractor(): CandidateExtractor {
+  const model = process.env.ANTHROPIC_MODEL ?? "claude-haiku-4-5";
+  return {
+    backend: "anthropic",
+    model,
+    keyEnv: "ANTHROPIC_API_KEY",
+    async extract({ system, user }) {
+      const res = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "anthropic-version": "2023-06-01",
+          "X-Api-Key": process.env.ANTHROPIC_API_KEY ?? "",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 4000,
+          temperature: 0.2,
+          system,
+          messages: [{ role: "user", content: user }],
+          tools: [
+            {
+              name: SUBMIT_TOOL,
+              description: "Submit the CaseStudy objects you produced.",
+              input_schema: CANDIDATE_LIST_SCHEMA,
+            },
+          ],
+          tool_choice: { type: "tool", name: SUBMIT_TOOL },
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Anthropic failed: ${res.status} ${body.slice(0, 1500)}`);
+      }
+
+      const json = (await res.json()) as {
+        content?: Array<{ type?: string; text?: string; name?: string; input?: unknown }>;
+        usage?: { input_tokens?: number; output_tokens?: number };
+      };
+      const blocks = json.content ?? [];
+      const toolInput = blocks.find((b) => b?.type === "tool_use" && b.name === SUBMIT_TOOL)?.input;
+      const text = blocks
+        .filter((b) => b?.type === "text")
+        .map((b) => String(b.text ?? ""))
+        .join("");
+      return {
+        candidates: candidatesFrom(toolInput) ?? parseCandidateOutput(text),
+        usage: { inputTokens: json.usage?.input_tokens, outputTokens: json.usage?.output_tokens },
+      };
+    },
+  };
+}
+
+/**
+ * Any OpenAI-compatible chat/completions endpoint. Set OPENAI_BASE_URL for a local
+ * llama.cpp / Ollama server (no key needed there).
+ */
+function createOpenAiCompatibleExtractor(): CandidateExtractor {
+  const baseUrl = (process.env.OPENAI_BASE_URL ?? "").trim().replace(/\/+$/, "");
+  const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+  return {
+    backend: "openai",
+    model,
+    keyEnv: baseUrl ? "" : "OPENAI_API_KEY",
+    async extract({ system, user }) {
+      const apiKey = process.env.OPENAI_API_KEY ?? "";
+      const res = await fetch(`${baseUrl || "https://api.openai.com/v1"}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 4000,
+          temperature: 0.2,
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: user },
+          ],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "case_study_candidates", schema: CANDIDATE_LIST_SCHEMA },
+          },
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`OpenAI-compatible extractor failed: ${res.status} ${body.slice(0, 1500)}`);
+      }
+
+      const json = (await res.json()) as {
+        choices?: Array<{ message?: { content?: string | null } }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      return {
+        candidates: parseCandidateOutput(String(json.choices?.[0]?.message?.content ?? "")),
+        usage: { inputTokens: json.usage?.prompt_tokens, outputTokens: json.usage?.completion_tokens },
+      };
+    },
+  };
+}
+
+/**
+ * Deterministic backend for CI and offline runs: one speculation candidate per source whose
+ * snippet contains a money amount, quoting the snippet as the excerpt.
+ */
+function createStubExtractor(): CandidateExtractor {
+  return {
+    backend: "stub",
+    model: "stub",
+    keyEnv: "",
+    async extract({ sources, maxItems }) {
+      const today = new Date().toISOString().slice(0, 10);
+      const candidates = sources
+        .filter((s) => hasMoneyAmount(s.snippet ?? ""))
+        .slice(0, maxItems)
+        .map((s) => {
+          const snippet = (s.snippet ?? "").trim();
+          return {
+            date: s.date ?? today,
+            title: s.title,
+            summary: snippet,
+            description: `${snippet}\n\nGenerated by the stub extractor from a single source.`,
+            profitMechanisms: [],
+            tags: ["stub"],
+            proofSources: [{ label: s.title, url: s.url, kind: "article", excerpt: snippet }],
+            status: "speculation",
+          };
+        });
+      return { candidates };
+    },
+  };
+}
+
+export function isExtractorBackend(value: string): value is ExtractorBackend {
+  return (EXTRACTOR_BACKENDS as string[]).includes(value);
+}
+
+/** Backend for this run: explicit choice, then EXTRACTOR_BACKEND, then Anthropic. */
+export function resolveExtractorBackend(choice?: string | null): ExtractorBackend {
+  const value = (choice || process.env.EXTRACTOR_BACKEND || "").trim().toLowerCase();
+  return isExtractorBackend(value) ? value : "anthropic";
+}
+
+export function createCandidateExtractor(backend: ExtractorBackend): CandidateExtractor {
+  if (backend === "openai") return createOpenAiCompatibleExtractor();
+  if (backend === "stub") return createStubExtractor();
+  return createAnthropicExtractor();
+}
+
+/** Env var an extractor needs, or "" when it is set (or not needed). */
+export function missingExtractorKey(extractor: CandidateExtractor) {
+  if (!extractor.keyEnv) return "";
+  return (process.env[extractor.keyEnv] ?? "").trim() ? "" : extractor.keyEnv;
+}
+
+function addUsage(a: ExtractionUsage | undefined, b: ExtractionUsage | undefined): ExtractionUsage {
+  const sum = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0));
+  return { inputTokens: sum(a?.inputTokens, b?.inputTokens), outputTokens: sum(a?.outputTokens, b?.outputTokens) };
+}
+
+export async function extractCaseStudyCandidates({
+  extractor,
+  sources,
+  perplexitySummary,
+  maxItems,
+  mode,
+}: {
+  extractor: CandidateExtractor;
+  sources: ExtractionSource[];
+  perplexitySummary: string;
+  maxItems: number;
+  mode: ScoutMode;
+}): Promise<ExtractionOutcome> {
+  const system = buildClaudeSystemPrompt({ mode });
+  const user = buildClaudeUserPrompt({ sources, perplexitySummary, maxItems, mode });
+
+  const first = await extractor.extract({ system, user, sources, maxItems });
+  const checked = checkCandidates(first.candidates);
+  const outcome: ExtractionOutcome = {
+    candidates: checked.valid,
+    invalid: checked.invalid,
+    usage: addUsage(first.usage, undefined),
+    schema: {
+      errors: formatCandidateErrors(checked.invalid.flatMap((x) => x.errors)),
+      repairAttempted: false,
+      repairedCount: 0,
+      discarded: [],
+    },
+  };
+  if (!checked.invalid.length) return outcome;
+
+  // One repair round-trip: send back only the invalid items, numbered as in that list.
+  outcome.schema.repairAttempted = true;
+  try {
+    const repair = await extractor.extract({
+      system,
+      user: buildCandidateRepairPrompt({
+        originalPrompt: user,
+        invalidItems: checked.invalid.map((x) => x.candidate),
+        errors: formatCandidateErrors(checked.invalid.flatMap((x, i) => x.errors.map((e) => ({ ...e, index: i })))),
+      }),
+      sources,
+      maxItems: checked.invalid.length,
+    });
+    const repaired = checkCandidates(repair.candidates.slice(0, checked.invalid.length));
+    outcome.candidates = [...checked.valid, ...repaired.valid];
+    outcome.invalid = repaired.invalid;
+    outcome.usage = addUsage(outcome.usage, repair.usage);
+    outcome.schema.repairedCount = repaired.valid.length;
+    outcome.schema.discarded = formatCandidateErrors(repaired.invalid.flatMap((x) => x.errors), "repaired item");
+  } catch (e) {
+    outcome.schema.repairError = e instanceof Error ? e.message : String(e);
+    outcome.schema.discarded = outcome.schema.errors;
+  }
+  return outcome;
+}
@@ -0,0 +1,155 @@
+import type { CaseStudy, CaseStudyStatus, ProofSource, ProofSourceKind } from "@/lib/types";
+
+/**
+ * Runtime schema for the case-study candidates an LLM returns.
+ *
+ * The shape follows `CaseStudy` in `src/lib/types.ts` (minus the fields the server fills in:
+ * `amounts`, and `stageId`, `check` and `archive` on sources). The same schema is sent to the
+ * model as a tool / JSON schema and used to check the response field by field, so errors can be
+ * fed back for repair.
+ */
+
+export type ProofSourceCandidate = Omit<ProofSource, "stageId" | "check" | "archive">;
+
+export type CaseStudyCandidate = Omit<CaseStudy, "id" | "amounts" | "proofSources" | "retracted" | "provenance"> & {
+  id?: string;
+  proofSources: ProofSourceCandidate[];
+};
+
+/** The JSON Schema subset used here (also valid input for tool / response_format schemas). */
+export type FieldSchema =
+  | { type: "string"; description?: string; enum?: string[]; pattern?: string; minLength?: number }
+  | { type: "array"; description?: string; items: FieldSchema; minItems?: number }
+  | { type: "object"; description?: string; properties: Record<string, FieldSchema>; required: string[] };
+
+export type CandidateFieldError = {
+  index: number; // position in the model output
+  path: string; // e.g. "proofSources[1].url"
+  message: string;
+};
+
+// Records keyed by the union types so a new kind/status in types.ts fails to compile here.
+const PROOF_SOURCE_KINDS: Record<ProofSourceKind, true> = {
+  tweet: true,
+  thread: true,
+  repo: true,
+  website: true,
+  dashboard: true,
+  article: true,
+  video: true,
+  paper: true,
+  other: true,
+};
+
+const CASE_STUDY_STATUSES: Record<CaseStudyStatus, true> = {
+  verified: true,
+  speculation: true,
+};
+
+const nonEmpty = { type: "string", minLength: 1 } as const;
+
+const proofSourceProperties: Record<keyof ProofSourceCandidate, FieldSchema> = {
+  label: { ...nonEmpty, description: "Short name of the source." },
+  url: { type: "string", pattern: "^https?://", description: "Public http(s) URL." },
+  kind: { type: "string", enum: Object.keys(PROOF_SOURCE_KINDS) },
+  excerpt: { type: "string", description: "Verbatim quote from the source, ideally containing the money amount." },
+};
+
+const candidateProperties: Record<keyof CaseStudyCandidate, FieldSchema> = {
+  id: { type: "string", description: "Optional slug; the server assigns one if missing." },
+  date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$", description: "YYYY-MM-DD" },
+  title: { ...nonEmpty, description: "Must include the money amount in its original currency." },
+  summary: nonEmpty,
+  description: nonEmpty,
+  profitMechanisms: { type: "array", items: nonEmpty },
+  tags: { type: "array", items: nonEmpty },
+  proofSources: {
+    type: "array",
+    minItems: 1,
+    items: { type: "object", properties: proofSourceProperties, required: ["label", "url"] },
+  },
+  status: { type: "string", enum: Object.keys(CASE_STUDY_STATUSES) },
+};
+
+const candidateRequired: Array<keyof CaseStudyCandidate> = [
+  "date",
+  "title",
+  "summary",
+  "description",
+  "profitMechanisms",
+  "tags",
+  "proofSources",
+];
+
+export const CASE_STUDY_CANDIDATE_SCHEMA: FieldSchema = {
+  type: "object",
+  properties: candidateProperties,
+  required: candidateRequired,
+};
+
+/** Top-level object for tool calls / structured output (providers expect an object, not an array). */
+export const CANDIDATE_LIST_SCHEMA: FieldSchema = {
+  type: "object",
+  properties: { candidates: { type: "array", items: CASE_STUDY_CANDIDATE_SCHEMA } },
+  required: ["candidates"],
+};
+
+function checkField(schema: FieldSchema, value: unknown, path: string, out: Array<{ path: string; message: string }>) {
+  if (schema.type === "string") {
+    if (typeof value !== "string") return out.push({ path, message: "must be a string." });
+    if (schema.minLength && value.trim().length < schema.minLength) return out.push({ path, message: "must not be empty." });
+    if (schema.enum && !schema.enum.includes(value)) {
+      return out.push({ path, message: `must be one of ${schema.enum.join(", ")} (got "${value.slice(0, 40)}").` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, "i").test(value)) {
+      return out.push({ path, message: `must match ${schema.pattern} (got "${value.slice(0, 40)}").` });
+    }
+    return;
+  }
+  if (schema.type === "array") {
+    if (!Array.isArray(value)) return out.push({ path, message: "must be an array." });
+    if (schema.minItems && value.length < schema.minItems) {
+      return out.push({ path, message: `must have at least ${schema.minItems} item(s).` });
+    }
+    value.forEach((item, i) => checkField(schema.items, item, `${path}[${i}]`, out));
+    return;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return out.push({ path, message: "must be an object." });
+  const obj = value as Record<string, unknown>;
+  const prefix = path ? `${path}.` : "";
+  for (const key of schema.required) {
+    if (obj[key] === undefined || obj[key] === null) out.push({ path: `${prefix}${key}`, message: "is required." });
+  }
+  for (const [key, field] of Object.entries(schema.properties)) {
+    if (obj[key] === undefined || obj[key] === null) continue;
+    checkField(field, obj[key], `${prefix}${key}`, out);
+  }
+}
+
+/** Field errors for one candidate (empty when it matches the schema). */
+export function checkCandidate(value: unknown, index: number): CandidateFieldError[] {
+  const out: Array<{ path: string; message: string }> = [];
+  checkField(CASE_STUDY_CANDIDATE_SCHEMA, value, "", out);
+  return out.map((e) => ({ index, path: e.path || "(item)", message: e.message }));
+}
+
+export type CandidateCheck = {
+  valid: CaseStudyCandidate[];
+  invalid: Array<{ candidate: unknown; errors: CandidateFieldError[] }>;
+};
+
+export function checkCandidates(values: unknown[]): CandidateCheck {
+  const valid: CaseStudyCandidate[] = [];
+  const invalid: CandidateCheck["invalid"] = [];
+  values.forEach((candidate, index) => {
+    const errors = checkCandidate(candidate, index);
+    if (errors.length) invalid.push({ candidate, errors });
+    else valid.push(candidate as CaseStudyCandidate);
+  });
+  return { valid, invalid };
+}
+
+/** One line per error, for prompts and logs. */
+export function formatCandidateErrors(errors: CandidateFieldError[], label = "item") {
+  return errors.map((e) => `${label} ${e.index}: ${e.path} ${e.message}`);
+}
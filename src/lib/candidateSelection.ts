@@ -0,0 +1,153 @@
+import type { CaseStudy } from "@/lib/types";
+import { evaluateCaseStudyCandidate, type PolicyReason } from "@/lib/caseStudyPolicy";
+import type { ScoutMode } from "@/lib/scoutConfig";
+import type { CandidateFieldError } from "@/lib/candidateSchema";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import type { EntityMatch, EntityUpdate, PossibleDuplicate } from "@/lib/entityResolution";
+
+/**
+ * Turns raw model candidates into the case studies a run adds, keeping a ledger of every
+ * candidate that was dropped and why. Shared by the weekly-update and story-parser crons.
+ */
+
+export type RejectionReason = PolicyReason | "outside-window" | "duplicate-url" | "duplicate-product" | "over-limit";
+
+export type RejectedCandidate = {
+  reason: RejectionReason;
+  detail: string;
+  title: string;
+  urls: string[];
+};
+
+export type CandidateSelection = {
+  added: CaseStudy[];
+  rejected: RejectedCandidate[];
+};
+
+function describeCandidate(cand: unknown): Pick<RejectedCandidate, "title" | "urls"> {
+  const obj = (cand && typeof cand === "object" ? cand : {}) as { title?: unknown; proofSources?: unknown };
+  const title = typeof obj.title === "string" ? obj.title.trim() : "";
+  const sources = Array.isArray(obj.proofSources) ? obj.proofSources : [];
+  const urls = sources
+    .map((s) => (s && typeof s === "object" ? (s as { url?: unknown }).url : undefined))
+    .filter((u): u is string => typeof u === "string" && Boolean(u.trim()))
+    .map((u) => u.trim());
+  return { title, urls };
+}
+
+/** Ledger entries for items the model returned that never matched the candidate schema. */
+export function rejectSchemaInvalid(invalid: Array<{ candidate: unknown; errors: CandidateFieldError[] }>): RejectedCandidate[] {
+  return invalid.map(({ candidate, errors }) => ({
+    reason: "invalid-shape",
+    detail: errors.map((e) => `${e.path} ${e.message}`).join(" "),
+    ...describeCandidate(candidate),
+  }));
+}
+
+/**
+ * Ledger entries for candidates entity resolution kept out of the new items: progress updates merged
+ * into an existing entry, and possible duplicates sent to the review queue.
+ */
+export function rejectDuplicateProducts({
+  updates,
+  duplicates,
+}: {
+  updates: EntityUpdate[];
+  duplicates: PossibleDuplicate[];
+}): RejectedCandidate[] {
+  const describe = (cs: CaseStudy) => ({ title: cs.title, urls: cs.proofSources.map((s) => s.url) });
+  const why = (match: EntityMatch) => `score ${match.score.toFixed(2)}, ${match.signals.join("+")}`;
+  return [
+    ...updates.map(({ targetId, update, match }) => ({
+      reason: "duplicate-product" as const,
+      detail: `Merged into ${targetId} as a progress update (${why(match)})`,
+      ...describe(update),
+    })),
+    ...duplicates.map(({ caseStudy, match }) => ({
+      reason: "duplicate-product" as const,
+      detail: `Possible duplicate of ${match.id} (${why(match)}); queued for review`,
+      ...describe(caseStudy),
+    })),
+  ];
+}
+
+export function countRejectionsByReason(rejected: RejectedCandidate[]) {
+  const counts: Partial<Record<RejectionReason, number>> = {};
+  for (const r of rejected) counts[r.reason] = (counts[r.reason] ?? 0) + 1;
+  return counts;
+}
+
+export function selectCaseStudyCandidates({
+  candidates,
+  existing,
+  find,
+  mode,
+  fallbackDate,
+  withinDays,
+  cutoffMs,
+  allowedUrls,
+  allowContextUrls,
+  urlSnippetByUrl,
+  urlStageByUrl,
+}: {
+  candidates: unknown[];
+  existing: CaseStudy[];
+  find: number;
+  mode: ScoutMode;
+  fallbackDate: string;
+  withinDays: number;
+  cutoffMs: number;
+  allowedUrls: Set<string>;
+  allowContextUrls?: boolean; // see evaluateCaseStudyCandidate
+  urlSnippetByUrl: Map<string, string>;
+  urlStageByUrl?: Map<string, string>;
+}): CandidateSelection {
+  const existingIds = new Set(existing.map((x) => x.id));
+  const existingUrls = new Set(existing.flatMap((x) => (x.proofSources ?? []).map((s) => canonicalizeUrl(s.url))));
+
+  // Rank candidates: verified first (stable otherwise).
+  const candidateRank = (x: unknown) => ((x as { status?: unknown } | null)?.status === "verified" ? 0 : 1);
+  const ordered = candidates.slice().sort((a, b) => candidateRank(a) - candidateRank(b));
+
+  const added: CaseStudy[] = [];
+  const rejected: RejectedCandidate[] = [];
+  for (const cand of ordered) {
+    if (added.length >= find) {
+      rejected.push({ reason: "over-limit", detail: `Run already added ${find} case studies.`, ...describeCandidate(cand) });
+      continue;
+    }
+    const decision = evaluateCaseStudyCandidate({
+      cs: cand,
+      allowedUrls,
+      allowContextUrls,
+      fallbackDate,
+      existingIds,
+      mode,
+      urlSnippetByUrl,
+      urlStageByUrl,
+    });
+    if (!decision.ok) {
+      rejected.push({ reason: decision.reason, detail: decision.detail, ...describeCandidate(cand) });
+      continue;
+    }
+    const cs = decision.caseStudy;
+    const described = { title: cs.title, urls: cs.proofSources.map((s) => s.url) };
+    if (withinDays) {
+      const t = new Date(`${cs.date}T00:00:00Z`).getTime();
+      if (!Number.isFinite(t) || t < cutoffMs) {
+        rejected.push({ reason: "outside-window", detail: `Dated ${cs.date}, older than ${withinDays} days.`, ...described });
+        continue;
+      }
+    }
+    // Deduplicate by any existing proof URL (same product, different story: see entityResolution).
+    const dupUrl = cs.proofSources.find((s) => existingUrls.has(canonicalizeUrl(s.url)));
+    if (dupUrl) {
+      rejected.push({ reason: "duplicate-url", detail: `Already listed: ${dupUrl.url}`, ...described });
+      continue;
+    }
+    added.push(cs);
+    cs.proofSources.forEach((s) => existingUrls.add(canonicalizeUrl(s.url)));
+  }
+
+  return { added, rejected };
+}
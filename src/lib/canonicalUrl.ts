@@ -0,0 +1,82 @@
+import { getTweetId, getYouTubeVideoId } from "@/lib/mediaUtils";
+
+/**
+ * Canonical form of a URL for comparing proof sources. Two URLs for the same page map to the same string:
+ *
+ * - https scheme, lowercase host without `www.`/`m.` or port; twitter.com folded into x.com, youtu.be into youtube.com
+ * - tracking parameters (`utm_*`, `fbclid`, `ref`, ...) dropped, the rest sorted
+ * - tweets become `https://x.com/i/status/<id>`, YouTube videos `https://youtube.com/watch?v=<id>`
+ * - trailing slashes and fragments removed (hash routes like `#/path` and `#!/path` are kept)
+ *
+ * Only used as a comparison key: stored proof sources keep the URL as the source gave it, for display.
+ */
+
+const HOST_ALIASES: Record<string, string> = {
+  "twitter.com": "x.com",
+  "mobile.twitter.com": "x.com",
+  "mobile.x.com": "x.com",
+  "youtu.be": "youtube.com",
+  "youtube-nocookie.com": "youtube.com",
+};
+
+const TRACKING_PARAMS = new Set([
+  ...["fbclid", "gclid", "dclid", "gbraid", "wbraid", "msclkid", "twclid", "li_fat_id", "igshid", "igsh"],
+  ...["mc_cid", "mc_eid", "_hsenc", "_hsmi", "mkt_tok", "yclid", "ref", "ref_src", "ref_url"],
+]);
+
+/** Parameters that only track shares or playback position on these hosts (`?s=20`, `?t=30`). */
+const HOST_TRACKING_PARAMS: Record<string, Set<string>> = {
+  "x.com": new Set(["s", "t", "src"]),
+  "youtube.com": new Set(["t", "si", "feature", "pp", "ab_channel", "start"]),
+};
+
+const isTrackingParam = (host: string, key: string) =>
+  /^(utm_|pk_|mtm_)/i.test(key) ||
+  TRACKING_PARAMS.has(key.toLowerCase()) ||
+  Boolean(HOST_TRACKING_PARAMS[host]?.has(key));
+
+export function canonicalHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/\.$/, "").replace(/^(?:www|m)\./, "");
+  return HOST_ALIASES[host] ?? host;
+}
+
+export function canonicalizeUrl(raw: string) {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw.trim();
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return raw.trim();
+  const host = canonicalHost(url.hostname);
+
+  if (host === "x.com") {
+    const tweetId = getTweetId(`https://x.com${url.pathname}`);
+    if (tweetId) return `https://x.com/i/status/${tweetId}`;
+  }
+  if (host === "youtube.com") {
+    const videoId =
+      url.hostname.endsWith("youtu.be") && url.pathname.length > 1
+        ? url.pathname.slice(1).split("/")[0]
+        : (getYouTubeVideoId(`https://youtube.com${url.pathname}${url.search}`) ??
+          url.pathname.match(/^\/(?:shorts|live|v)\/([\w-]+)/)?.[1]);
+    if (videoId) return `https://youtube.com/watch?v=${videoId}`;
+  }
+
+  const params = [...url.searchParams].filter(([key]) => !isTrackingParam(host, key));
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = new URLSearchParams(params).toString();
+  const path = url.pathname.replace(/\/+$/, "");
+  const hash = /^#!?\//.test(url.hash) ? url.hash.replace(/\/+$/, "") : "";
+  return `https://${host}${path}${query ? `?${query}` : ""}${hash}`;
+}
+
+/** Index `entries` by canonical URL; the first entry for a URL wins. */
+export function byCanonicalUrl<T>(entries: Iterable<readonly [string, T]>) {
+  const out = new Map<string, T>();
+  for (const [url, value] of entries) {
+    const key = canonicalizeUrl(url);
+    if (!out.has(key)) out.set(key, value);
+  }
+  return out;
+}
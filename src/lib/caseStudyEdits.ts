@@ -0,0 +1,115 @@
+import type { CaseStudy, MoneyAmount, ProofSource } from "@/lib/types";
+import { applyReviewEdits } from "@/lib/blobReviewQueue";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+
+/**
+ * Admin corrections to live entries: patch fields, retract, or merge a duplicate into another
+ * entry. Each one is published as its own run (see `publishDatasetEdit`) whose manifest carries
+ * the `DatasetEdit`, so history and rollback cover edits like any other run.
+ */
+
+export type EditOp = "patch" | "retract" | "merge";
+
+/** Recorded on the manifest (and run.json) of the run an edit produced. */
+export type DatasetEdit = {
+  op: EditOp;
+  id: string;
+  duplicateId?: string; // merge: the entry folded into `id` and retracted
+  fields?: string[]; // patch: fields that changed
+  editor: string;
+  reason: string;
+};
+
+export const EDITABLE_FIELDS = [
+  "date",
+  "title",
+  "summary",
+  "description",
+  "profitMechanisms",
+  "tags",
+  "proofSources",
+  "amounts",
+  "status",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+export type CaseStudyPatch = Partial<Pick<CaseStudy, EditableField>>;
+
+export function isRetracted(cs: CaseStudy) {
+  return Boolean(cs.retracted);
+}
+
+/** Entries shown in listings, feeds and digests (retracted ones stay reachable by id only). */
+export function listedCaseStudies(items: CaseStudy[]) {
+  return items.filter((cs) => !isRetracted(cs));
+}
+
+/** Pick the editable fields out of a request body; anything else is reported back. */
+export function parseCaseStudyPatch(input: unknown): { patch: CaseStudyPatch; ignored: string[] } {
+  if (!input || typeof input !== "object") return { patch: {}, ignored: [] };
+  const obj = input as Record<string, unknown>;
+  const patch: Record<string, unknown> = {};
+  const ignored: string[] = [];
+  for (const [key, value] of Object.entries(obj)) {
+    if ((EDITABLE_FIELDS as readonly string[]).includes(key) && value !== undefined) patch[key] = value;
+    else ignored.push(key);
+  }
+  return { patch: patch as CaseStudyPatch, ignored };
+}
+
+/** Apply a patch; amounts are re-normalized to USD like reviewer edits. */
+export function applyCaseStudyPatch(cs: CaseStudy, patch: CaseStudyPatch): CaseStudy {
+  const { amounts, ...rest } = patch;
+  const next: CaseStudy = { ...cs, ...rest };
+  return Array.isArray(amounts) ? applyReviewEdits(next, { amounts }) : next;
+}
+
+export function retractCaseStudy(
+  cs: CaseStudy,
+  { reason, editor, mergedInto }: { reason: string; editor: string; mergedInto?: string },
+): CaseStudy {
+  return {
+    ...cs,
+    retracted: { reason, editor, retractedAt: new Date().toISOString(), ...(mergedInto ? { mergedInto } : {}) },
+  };
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/**
+ * Fold `duplicate` into `target`: proofs, amounts, tags and mechanisms are unioned; the rest stays `target`'s.
+ * Each carried-over amount keeps pointing at a source whose excerpt quotes it.
+ */
+export function mergeCaseStudies(target: CaseStudy, duplicate: CaseStudy): CaseStudy {
+  const amountKey = (a: MoneyAmount) => `${a.currency}:${a.value}:${a.metric}`;
+  const amountKeys = new Set((target.amounts ?? []).map(amountKey));
+  const carried = (duplicate.amounts ?? []).filter((a) => !amountKeys.has(amountKey(a)));
+  const samePage = (s: ProofSource, url: string) => canonicalizeUrl(s.url) === canonicalizeUrl(url);
+  const quotes = (s: ProofSource, a: MoneyAmount) => (s.excerpt ?? "").includes(a.text);
+
+  // Same page under another URL (twitter.com vs x.com, tracking params): keep the target's copy, plus the
+  // duplicate's when only its excerpt quotes one of the carried-over amounts.
+  const proofSources = [...target.proofSources];
+  for (const s of duplicate.proofSources) {
+    const copy = target.proofSources.find((t) => samePage(t, s.url));
+    const quotedOnlyHere = carried.some((a) => a.sourceUrl === s.url && quotes(s, a) && !(copy && quotes(copy, a)));
+    if (!copy || (quotedOnlyHere && copy.url !== s.url)) proofSources.push(s);
+  }
+  const amounts = [
+    ...(target.amounts ?? []),
+    ...carried.map((a) => {
+      if (!a.sourceUrl) return a;
+      const source = proofSources.find((s) => samePage(s, a.sourceUrl as string) && quotes(s, a));
+      // Quoted only in a second excerpt of the very same URL: keep the amount, unlinked.
+      return { ...a, sourceUrl: source?.url };
+    }),
+  ];
+  return {
+    ...target,
+    proofSources,
+    tags: unique([...target.tags, ...duplicate.tags]),
+    profitMechanisms: unique([...target.profitMechanisms, ...duplicate.profitMechanisms]),
+    ...(amounts.length ? { amounts } : {}),
+  };
+}
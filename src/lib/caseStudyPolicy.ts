@@ -0,0 +1,614 @@
+import type { CaseStudy, MoneyAmount, ProofSource } from "@/lib/types";
+import {
+  extractCaseStudyAmounts,
+  extractFirstMoneyToken,
+  extractFirstShorthandMoneyToken,
+  hasMoneyAmount,
+} from "@/lib/money";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import { isSupportedCurrency } from "@/lib/fx";
+import type { ScoutMode } from "@/lib/scoutConfig";
+
+/**
+ * Single source of truth for what a publishable case study looks like.
+ *
+ * Both cron pipelines run candidates through `evaluateCaseStudyCandidate`, and the
+ * CLI validator runs the stored dataset through `validateCaseStudies`. The candidate
+ * path ends with the same `validateCaseStudy` check, so anything the cron accepts
+ * also passes `npm run validate:case-studies`.
+ */
+
+export type PolicyReason =
+  | "invalid-shape"
+  | "missing-fields"
+  | "no-proof-sources"
+  | "url-not-allowed"
+  | "too-few-sources"
+  | "blocked-social"
+  | "uncorroborated-social"
+  | "funding-context"
+  | "no-money-excerpt"
+  | "title-missing-amount"
+  | "weak-corroboration"
+  | "self-blog-uncorroborated"
+  | "invalid-amount"
+  | "duplicate-id";
+
+export type PolicyIssue = {
+  reason: PolicyReason;
+  path: string;
+  message: string;
+};
+
+export type PolicyDecision =
+  | { ok: true; caseStudy: CaseStudy }
+  | { ok: false; reason: PolicyReason; detail: string };
+
+/** Stage whose X/Twitter posts count as first-hand (the post itself is the claim). */
+export const GROK_X_STAGE_ID = "grok-x-search";
+
+export function slugify(input: string) {
+  return input
+    .toLowerCase()
+    .replace(/\$/g, " dollars ")
+    .replace(/€/g, " euros ")
+    .replace(/£/g, " pounds ")
+    .replace(/¥/g, " yen ")
+    .replace(/₹/g, " rupees ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 90);
+}
+
+export function isIsoDate(input: unknown): input is string {
+  return typeof input === "string" && /^\d{4}-\d{2}-\d{2}$/.test(input);
+}
+
+export function coerceIsoDate(input: unknown, fallback: string) {
+  const s = typeof input === "string" ? input.trim() : "";
+  return isIsoDate(s) ? s : fallback;
+}
+
+export function isHttpUrl(url: string) {
+  return /^https?:\/\//i.test(url);
+}
+
+// ============================================================================
+// Tiered Social Media Policy
+// ============================================================================
+
+/** Tier 1: Always allowed (primary/trusted platforms) */
+const TIER1_ALLOWED_HOSTS = new Set([
+  "youtube.com",
+  "youtu.be",
+  "github.com",
+  "indiehackers.com",
+  "devpost.com",
+  "kaggle.com",
+]);
+
+/** Tier 2: Allowed WITH corroboration (indie maker platforms) */
+const TIER2_CORROBORATION_HOSTS = new Set([
+  "twitter.com",
+  "x.com",
+  "reddit.com",
+  "linkedin.com",
+]);
+
+/** Tier 3: Always blocked */
+const TIER3_BLOCKED_HOSTS = new Set([
+  "facebook.com",
+  "tiktok.com",
+  "instagram.com",
+  "discord.com",
+  "t.me",
+  "telegram.me",
+]);
+
+/** Hosts we ask search providers to skip (Tier 2 + Tier 3). */
+export const SOCIAL_HOSTS: readonly string[] = [...TIER2_CORROBORATION_HOSTS, ...TIER3_BLOCKED_HOSTS];
+export const BLOCKED_SOCIAL_HOSTS: readonly string[] = [...TIER3_BLOCKED_HOSTS];
+
+function getUrlHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function hostMatches(host: string, hostSet: Set<string>): boolean {
+  if (hostSet.has(host)) return true;
+  for (const h of hostSet) {
+    if (host.endsWith(`.${h}`)) return true;
+  }
+  return false;
+}
+
+export function isTier1Url(url: string): boolean {
+  return hostMatches(getUrlHost(url), TIER1_ALLOWED_HOSTS);
+}
+
+export function isTier2Url(url: string): boolean {
+  return hostMatches(getUrlHost(url), TIER2_CORROBORATION_HOSTS);
+}
+
+export function isTier3Url(url: string): boolean {
+  return hostMatches(getUrlHost(url), TIER3_BLOCKED_HOSTS);
+}
+
+export function isSocialUrl(url: string): boolean {
+  return isTier2Url(url) || isTier3Url(url);
+}
+
+export function isXTwitterUrl(url: string): boolean {
+  const host = getUrlHost(url);
+  return host === "x.com" || host === "twitter.com" || host.endsWith(".x.com") || host.endsWith(".twitter.com");
+}
+
+function isGrokXSource(s: Pick<ProofSource, "url" | "stageId">) {
+  return s.stageId === GROK_X_STAGE_ID && isXTwitterUrl(s.url);
+}
+
+/** Tier 1, any non-social URL, or a Grok X post. */
+function isPrimarySource(s: Pick<ProofSource, "url" | "stageId">) {
+  return isTier1Url(s.url) || !isSocialUrl(s.url) || isGrokXSource(s);
+}
+
+/**
+ * Check if a Tier 2 social source has corroboration from Tier 1 or non-social sources.
+ */
+function hasTier2Corroboration(source: Pick<ProofSource, "url" | "stageId">, all: Array<Pick<ProofSource, "url">>) {
+  // X/Twitter URLs from Grok stage are auto-corroborated (native source)
+  if (isGrokXSource(source)) return true;
+  const url = canonicalizeUrl(source.url);
+  return all.some((s) => canonicalizeUrl(s.url) !== url && (isTier1Url(s.url) || !isSocialUrl(s.url)));
+}
+
+const MONEY_CONTEXT_DENY = [
+  "funding",
+  "fundraising",
+  "raised",
+  "valuation",
+  "capex",
+  "market cap",
+  "secondary market",
+  "secondary markets",
+  "venture",
+  "series a",
+  "series b",
+  "series c",
+  "seed round",
+  "quarterly revenue",
+  "quarterly earnings",
+  "q1 revenue",
+  "q2 revenue",
+  "q3 revenue",
+  "q4 revenue",
+  "earnings report",
+  "fiscal quarter",
+  "fiscal year",
+  "yoy growth",
+  "year-over-year",
+  "total revenue",
+  "global spending",
+  "market size",
+  "market forecast",
+  "token price",
+  "fdv",
+  "tvl",
+  "airdrop",
+];
+
+export function looksLikeFundingOrValuationContext(s: string) {
+  const t = s.toLowerCase();
+  return MONEY_CONTEXT_DENY.some((w) => t.includes(w));
+}
+
+export function likelySelfBlogUrl(url: string) {
+  try {
+    const u = new URL(url);
+    const host = u.hostname.toLowerCase();
+    const path = u.pathname.toLowerCase();
+    if (host === "medium.com" || host.endsWith(".medium.com")) return true;
+    if (host === "substack.com" || host.endsWith(".substack.com")) return true;
+    if (host.startsWith("blog.")) return true;
+    if (path.includes("/blog")) return true;
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hosting platforms where each subdomain is a separate site (the "private" part of the public suffix
+ * list): `acme.github.io` and `zeta.vercel.app` are different owners, not one domain.
+ */
+const HOSTED_SUFFIXES = new Set([
+  ...["github.io", "gitlab.io", "vercel.app", "netlify.app", "pages.dev", "workers.dev", "herokuapp.com"],
+  ...["fly.dev", "onrender.com", "railway.app", "replit.app", "repl.co", "web.app", "firebaseapp.com"],
+  ...["azurewebsites.net", "hf.space", "streamlit.app", "glitch.me", "surge.sh", "bubbleapps.io", "webflow.io"],
+  ...["framer.website", "carrd.co", "notion.site", "wixsite.com", "myshopify.com", "gumroad.com", "lemonsqueezy.com"],
+]);
+
+export function registrableDomain(hostname: string) {
+  const host = hostname.toLowerCase().replace(/\.+$/, "");
+  const parts = host.split(".").filter(Boolean);
+  if (parts.length <= 2) return host;
+
+  const hosted = parts.slice(-2).join(".");
+  if (HOSTED_SUFFIXES.has(hosted)) return parts.slice(-3).join(".");
+
+  // Tiny eTLD+1 approximation for common multi-part TLDs we'll see.
+  const last2 = parts.slice(-2).join(".");
+  const last3 = parts.slice(-3).join(".");
+  const multi = new Set([
+    "co.uk",
+    "org.uk",
+    "gov.uk",
+    "ac.uk",
+    "com.au",
+    "net.au",
+    "org.au",
+    "edu.au",
+    "gov.au",
+    "co.nz",
+    "org.nz",
+    "gov.nz",
+    "ac.nz",
+  ]);
+  if (multi.has(last2) && parts.length >= 3) return last3;
+  return last2;
+}
+
+function uniqueDomainCount(sources: Array<Pick<ProofSource, "url">>) {
+  const domains = sources.map((s) => registrableDomain(getUrlHost(s.url))).filter(Boolean);
+  return new Set(domains).size;
+}
+
+// ============================================================================
+// Stored case study rules
+// ============================================================================
+
+const MONEY_PERIODS = new Set(["one-off", "monthly", "annual"]);
+const MONEY_METRICS = new Set(["revenue", "mrr", "arr", "profit", "prize", "bounty", "sale-price"]);
+
+const oneOf = (values: Set<string>) => [...values].join(", ");
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function isUrl(v: string) {
+  try {
+    new URL(v);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the shape of each money amount (object, positive value, supported currency, known period and metric, text).
+ * Whether amounts are backed by an excerpt is left to `validateCaseStudy`.
+ */
+export function validateMoneyAmounts(value: unknown, at = "amounts"): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+  const fail = (path: string, message: string) => issues.push({ reason: "invalid-amount", path, message });
+  if (!Array.isArray(value)) {
+    fail(at, "must be an array.");
+    return issues;
+  }
+  value.forEach((a: Partial<MoneyAmount> | null, j) => {
+    const aat = `${at}[${j}]`;
+    if (!a || typeof a !== "object") {
+      fail(aat, "must be an object.");
+      return;
+    }
+    if (typeof a.value !== "number" || !Number.isFinite(a.value) || a.value <= 0) {
+      fail(`${aat}.value`, "must be a positive number.");
+    }
+    if (!isSupportedCurrency(String(a.currency))) {
+      fail(`${aat}.currency`, "must be a supported currency (see src/data/fx-rates.json).");
+    }
+    if (a.usdValue !== undefined && (typeof a.usdValue !== "number" || !Number.isFinite(a.usdValue))) {
+      fail(`${aat}.usdValue`, "must be a number.");
+    }
+    if (!MONEY_PERIODS.has(String(a.period))) fail(`${aat}.period`, `must be one of: ${oneOf(MONEY_PERIODS)}.`);
+    if (!MONEY_METRICS.has(String(a.metric))) fail(`${aat}.metric`, `must be one of: ${oneOf(MONEY_METRICS)}.`);
+    if (!isNonEmptyString(a.text)) fail(`${aat}.text`, "is required.");
+    if (a.sourceUrl !== undefined && typeof a.sourceUrl !== "string") fail(`${aat}.sourceUrl`, "must be a string.");
+  });
+  return issues;
+}
+
+/**
+ * Check a single stored case study against every publishing rule.
+ * Returns an empty array when the entry is valid.
+ */
+export function validateCaseStudy(value: unknown, at = "caseStudy"): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+  const fail = (reason: PolicyReason, path: string, message: string) => issues.push({ reason, path, message });
+
+  if (!value || typeof value !== "object") {
+    fail("invalid-shape", at, "must be an object.");
+    return issues;
+  }
+  const cs = value as Partial<CaseStudy>;
+
+  if (!isNonEmptyString(cs.id)) fail("missing-fields", `${at}.id`, "is required.");
+  if (!isIsoDate(cs.date)) fail("invalid-shape", `${at}.date`, "must be YYYY-MM-DD.");
+  if (!isNonEmptyString(cs.title)) fail("missing-fields", `${at}.title`, "is required.");
+  if (!isNonEmptyString(cs.summary)) fail("missing-fields", `${at}.summary`, "is required.");
+  if (!isNonEmptyString(cs.description)) fail("missing-fields", `${at}.description`, "is required.");
+  if (!Array.isArray(cs.profitMechanisms)) fail("invalid-shape", `${at}.profitMechanisms`, "must be an array.");
+  if (!Array.isArray(cs.tags)) fail("invalid-shape", `${at}.tags`, "must be an array.");
+  if (cs.status !== undefined && cs.status !== "verified" && cs.status !== "speculation") {
+    fail("invalid-shape", `${at}.status`, 'must be "verified" or "speculation".');
+  }
+  if (cs.retracted !== undefined && !isNonEmptyString(cs.retracted?.reason)) {
+    fail("invalid-shape", `${at}.retracted.reason`, "is required.");
+  }
+
+  // Titles must include a money amount and must not use funding rounds as "making money".
+  if (isNonEmptyString(cs.title) && !hasMoneyAmount(cs.title)) {
+    fail("title-missing-amount", `${at}.title`, "must include a money amount in a supported currency.");
+  }
+  if (looksLikeFundingOrValuationContext(`${cs.title ?? ""}\n${cs.summary ?? ""}`)) {
+    fail("funding-context", at, 'appears to be fundraising/valuation-based. Funding rounds are not "making money".');
+  }
+
+  if (!Array.isArray(cs.proofSources)) {
+    fail("invalid-shape", `${at}.proofSources`, "must be an array.");
+    return issues;
+  }
+
+  const sources: ProofSource[] = [];
+  cs.proofSources.forEach((s, j) => {
+    const sat = `${at}.proofSources[${j}]`;
+    if (!s || typeof s !== "object") {
+      fail("invalid-shape", sat, "must be an object.");
+      return;
+    }
+    if (!isNonEmptyString(s.label)) fail("invalid-shape", `${sat}.label`, "is required.");
+    if (!isNonEmptyString(s.url) || !isUrl(s.url) || !isHttpUrl(s.url)) {
+      fail("invalid-shape", `${sat}.url`, "must be a valid http(s) URL.");
+      return;
+    }
+    if (isTier3Url(s.url)) fail("blocked-social", `${sat}.url`, "is on a blocked social platform.");
+    if (s.check !== undefined && !(typeof s.check?.score === "number" && s.check.score >= 0 && s.check.score <= 1)) {
+      fail("invalid-shape", `${sat}.check.score`, "must be a number between 0 and 1.");
+    }
+    sources.push(s);
+  });
+
+  const status = cs.status ?? "speculation";
+  if (sources.length < 1) {
+    fail("no-proof-sources", `${at}.proofSources`, "must include at least 1 source.");
+    return issues;
+  }
+  if (status === "verified" && sources.length < 2) {
+    fail("too-few-sources", `${at}.proofSources`, "must include at least 2 sources for verified entries.");
+  }
+
+  // Tiered social policy: Tier 2 needs corroboration, and something must be a primary source.
+  sources.forEach((s, j) => {
+    if (isTier2Url(s.url) && !hasTier2Corroboration(s, sources)) {
+      fail("uncorroborated-social", `${at}.proofSources[${j}].url`, "is a social post without a corroborating source.");
+    }
+  });
+  if (!sources.some(isPrimarySource)) {
+    fail("uncorroborated-social", `${at}.proofSources`, "must include a Tier 1 or non-social source.");
+  }
+
+  // Money evidence: verified needs a verbatim money excerpt; speculation without one needs
+  // an allowed platform, a Grok X post, or 2+ distinct domains.
+  const excerptWithMoney = sources.find((s) => (s.excerpt ? hasMoneyAmount(s.excerpt) : false));
+  if (excerptWithMoney?.excerpt && looksLikeFundingOrValuationContext(excerptWithMoney.excerpt)) {
+    fail("funding-context", `${at}.proofSources`, "money excerpt is about funding/valuation, not money made.");
+  }
+  if (!excerptWithMoney) {
+    if (status === "verified") {
+      fail("no-money-excerpt", `${at}.proofSources`, "must include an excerpt containing the money amount.");
+    } else if (!sources.some((s) => isTier1Url(s.url) || isGrokXSource(s)) && uniqueDomainCount(sources) < 2) {
+      fail("weak-corroboration", `${at}.proofSources`, "needs a money excerpt, an allowed platform, or 2+ domains.");
+    }
+  }
+
+  // Self-blog policy: allow self blogs only when corroborated by an additional distinct-domain source.
+  if (sources.some((s) => likelySelfBlogUrl(s.url)) && uniqueDomainCount(sources) < 2) {
+    fail("self-blog-uncorroborated", `${at}.proofSources`, "self-published posts need a source on another domain.");
+  }
+
+  // Structured amounts are optional, but when present they must be well-formed and backed by an excerpt.
+  if (cs.amounts !== undefined) {
+    issues.push(...validateMoneyAmounts(cs.amounts, `${at}.amounts`));
+    if (!Array.isArray(cs.amounts)) return issues;
+    cs.amounts.forEach((a, j) => {
+      const aat = `${at}.amounts[${j}]`;
+      if (!a || typeof a !== "object") return;
+      if (a.sourceUrl !== undefined) {
+        const src = sources.find((s) => s.url === a.sourceUrl);
+        if (!src) fail("invalid-amount", `${aat}.sourceUrl`, "must match one of proofSources[].url.");
+        else if (isNonEmptyString(a.text) && !(src.excerpt ?? "").includes(a.text)) {
+          fail("invalid-amount", `${aat}.text`, "must appear in the excerpt of its sourceUrl.");
+        }
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check a whole dataset (per-entry rules plus unique ids).
+ */
+export function validateCaseStudies(values: unknown[], at = "caseStudies"): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+  const ids = new Set<string>();
+  values.forEach((value, i) => {
+    const path = `${at}[${i}]`;
+    issues.push(...validateCaseStudy(value, path));
+    const id = (value as Partial<CaseStudy> | null)?.id;
+    if (!isNonEmptyString(id)) return;
+    if (ids.has(id)) issues.push({ reason: "duplicate-id", path: `${path}.id`, message: `is duplicated: ${id}` });
+    ids.add(id);
+  });
+  return issues;
+}
+
+// ============================================================================
+// Pipeline candidates
+// ============================================================================
+
+function reject(reason: PolicyReason, detail: string): PolicyDecision {
+  return { ok: false, reason, detail };
+}
+
+/**
+ * Normalize a raw model candidate into a case study, or explain why it was rejected.
+ *
+ * Context-dependent decisions happen here (which URLs the run actually surfaced, snippet
+ * backfill, strict vs speculation mode, title amount injection); everything else is left
+ * to `validateCaseStudy` so the stored dataset and the pipelines share one rule set.
+ * Accepted ids are added to `existingIds`. `allowedUrls` and the maps are keyed by `canonicalizeUrl`;
+ * proof sources keep their original URL. Every proof URL must be one the run surfaced, unless
+ * `allowContextUrls` also lets in non-social URLs the model read off the surfaced pages.
+ */
+export function evaluateCaseStudyCandidate({
+  cs,
+  allowedUrls,
+  fallbackDate,
+  existingIds,
+  mode,
+  urlSnippetByUrl,
+  urlStageByUrl = new Map(),
+  allowContextUrls = false,
+}: {
+  cs: unknown;
+  allowedUrls: Set<string>;
+  allowContextUrls?: boolean;
+  fallbackDate: string;
+  existingIds: Set<string>;
+  mode: ScoutMode;
+  urlSnippetByUrl: Map<string, string>;
+  urlStageByUrl?: Map<string, string>;
+}): PolicyDecision {
+  if (!cs || typeof cs !== "object") return reject("invalid-shape", "Candidate is not an object.");
+  const obj = cs as Partial<CaseStudy>;
+
+  const date = coerceIsoDate(obj.date, fallbackDate);
+  let title = typeof obj.title === "string" ? obj.title.trim() : "";
+  const summary = typeof obj.summary === "string" ? obj.summary.trim() : "";
+  const description = typeof obj.description === "string" ? obj.description.trim() : "";
+  const profitMechanisms = Array.isArray(obj.profitMechanisms)
+    ? obj.profitMechanisms.filter((x) => typeof x === "string" && x.trim()).map((x) => x.trim())
+    : [];
+  const tags = Array.isArray(obj.tags) ? obj.tags.filter((x) => typeof x === "string" && x.trim()).map((x) => x.trim()) : [];
+
+  if (!title || !summary || !description) return reject("missing-fields", "title, summary and description are required.");
+
+  const rawSources = Array.isArray(obj.proofSources) ? (obj.proofSources as ProofSource[]) : [];
+  const seenUrls = new Set<string>();
+  const wellFormed = rawSources
+    .filter((s) => s && typeof s.label === "string" && typeof s.url === "string")
+    .map((s): ProofSource => {
+      const url = s.url.trim();
+      const stageId = urlStageByUrl.get(canonicalizeUrl(url));
+      return {
+        label: s.label.trim(),
+        url,
+        kind: s.kind,
+        excerpt: typeof s.excerpt === "string" && s.excerpt.trim() ? s.excerpt.trim() : undefined,
+        ...(stageId ? { stageId } : {}),
+      };
+    })
+    .filter((s) => s.label && s.url && isHttpUrl(s.url))
+    // The same page cited twice (x.com and twitter.com, with and without tracking params) counts once.
+    .filter((s) => {
+      const key = canonicalizeUrl(s.url);
+      if (seenUrls.has(key)) return false;
+      seenUrls.add(key);
+      return true;
+    });
+  if (!wellFormed.length) return reject("no-proof-sources", "Candidate has no usable proof sources.");
+
+  // Always allow URLs the run surfaced. With `allowContextUrls`, also allow non-social URLs the model
+  // extracted from context, typically the actual product websites mentioned in tweets.
+  const proofSources = wellFormed.filter(
+    (s) => allowedUrls.has(canonicalizeUrl(s.url)) || (allowContextUrls && !isSocialUrl(s.url)),
+  );
+  if (!proofSources.length) {
+    return reject("url-not-allowed", `No proof URL was surfaced by this run: ${wellFormed.map((s) => s.url).join(", ")}`);
+  }
+
+  // Apply tiered social policy: drop Tier 3 and uncorroborated Tier 2 sources.
+  const finalSources = proofSources.filter((s) => {
+    if (isTier3Url(s.url)) return false;
+    if (isTier2Url(s.url)) return hasTier2Corroboration(s, proofSources);
+    return true;
+  });
+  if (!finalSources.length) {
+    const reason = proofSources.some((s) => isTier3Url(s.url)) ? "blocked-social" : "uncorroborated-social";
+    return reject(reason, "Only social sources without corroboration.");
+  }
+
+  // If the model didn't include an excerpt, backfill it from the search snippet (same URL).
+  // This is especially important for speculation runs where the amount is often omitted from excerpts.
+  for (const s of finalSources) {
+    if (s.excerpt) continue;
+    const snippet = (urlSnippetByUrl.get(canonicalizeUrl(s.url)) ?? "").trim();
+    if (snippet) s.excerpt = snippet;
+  }
+
+  const excerptWithMoney = finalSources.find((s) => (s.excerpt ? hasMoneyAmount(s.excerpt) : false));
+  // Strict mode always requires a verbatim excerpt containing a money amount.
+  if (mode === "strict" && !excerptWithMoney) {
+    return reject("no-money-excerpt", "Strict mode requires an excerpt containing the money amount.");
+  }
+
+  // Auto-inject the money amount (in its original currency) into the title if missing.
+  if (!hasMoneyAmount(title)) {
+    const excerptMoneyToken = excerptWithMoney?.excerpt ? extractFirstMoneyToken(excerptWithMoney.excerpt) : "";
+    const token = excerptMoneyToken || extractFirstShorthandMoneyToken(`${title} ${summary} ${description}`);
+    if (token) title = `${title} — ${token}`;
+  }
+
+  // Verified needs 2+ sources and a money excerpt. In speculation mode the model's own status is
+  // ignored, but entries that meet that bar are upgraded.
+  const canVerify = finalSources.length >= 2 && Boolean(excerptWithMoney);
+  const wantsVerified = mode === "speculation" || obj.status === "verified";
+  const status = canVerify && wantsVerified ? "verified" : "speculation";
+
+  let id = typeof obj.id === "string" ? obj.id.trim() : "";
+  if (!id) id = `${date}-${slugify(title)}`;
+  if (!/^[a-z0-9-]+$/.test(id)) id = `${date}-${slugify(id || title)}`;
+  if (!id) id = `${date}-${Math.random().toString(16).slice(2, 10)}`;
+
+  let uniqueId = id;
+  let n = 2;
+  while (existingIds.has(uniqueId)) {
+    uniqueId = `${id}-${n}`;
+    n += 1;
+  }
+
+  const caseStudy: CaseStudy = {
+    id: uniqueId,
+    date,
+    title,
+    summary,
+    description,
+    profitMechanisms: profitMechanisms.length ? profitMechanisms : ["Unspecified (see proof sources)"],
+    tags,
+    proofSources: finalSources,
+    amounts: extractCaseStudyAmounts({ title, tags, proofSources: finalSources }),
+    status,
+  };
+
+  const issues = validateCaseStudy(caseStudy);
+  if (issues.length) return reject(issues[0].reason, `${issues[0].path} ${issues[0].message}`);
+
+  existingIds.add(uniqueId);
+  return { ok: true, caseStudy };
+}
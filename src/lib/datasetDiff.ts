@@ -0,0 +1,137 @@
+import type { CaseStudy } from "@/lib/types";
+
+/**
+ * Differences between versions of the dataset, matched by id.
+ *
+ * Every publish stores a `RunDiffV1` (what changed relative to its parent run) next to its
+ * manifest. The changes feed composes consecutive run diffs with `composeRunDiffs`, falling
+ * back to `diffCaseStudies` on two snapshots when the chain is incomplete.
+ */
+
+export type DiffEntry = { id: string; title: string };
+
+/** One top-level CaseStudy field that changed (`undefined` = field absent). */
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+export type ModifiedEntry = DiffEntry & { changes: FieldChange[] };
+
+export type DatasetDiff = {
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  modified: ModifiedEntry[];
+};
+
+/** Stored at `case-studies/diffs/<runId>.json` for every publish with a parent run. */
+export type RunDiffV1 = {
+  version: 1;
+  runId: string;
+  parentRunId: string;
+  createdAt: string; // ISO
+  added: CaseStudy[];
+  modified: ModifiedEntry[];
+  removed: CaseStudy[]; // full entries, so a later re-add can be diffed field by field
+};
+
+const entry = (cs: CaseStudy): DiffEntry => ({ id: cs.id, title: cs.title });
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function diffFields(before: CaseStudy, after: CaseStudy): FieldChange[] {
+  const a = before as unknown as Record<string, unknown>;
+  const b = after as unknown as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  return fields.filter((f) => !sameValue(a[f], b[f])).map((field) => ({ field, before: a[field], after: b[field] }));
+}
+
+function diffEntries(before: CaseStudy[], after: CaseStudy[]) {
+  const beforeById = new Map(before.map((cs) => [cs.id, cs]));
+  const afterIds = new Set(after.map((cs) => cs.id));
+  const added: CaseStudy[] = [];
+  const modified: ModifiedEntry[] = [];
+  for (const cs of after) {
+    const prev = beforeById.get(cs.id);
+    if (!prev) {
+      added.push(cs);
+      continue;
+    }
+    const changes = diffFields(prev, cs);
+    if (changes.length) modified.push({ ...entry(cs), changes });
+  }
+  return { added, modified, removed: before.filter((cs) => !afterIds.has(cs.id)) };
+}
+
+/** What changes when going from `before` to `after`. */
+export function diffCaseStudies(before: CaseStudy[], after: CaseStudy[]): DatasetDiff {
+  const diff = diffEntries(before, after);
+  return { added: diff.added.map(entry), removed: diff.removed.map(entry), modified: diff.modified };
+}
+
+export function buildRunDiff({
+  runId,
+  parentRunId,
+  before,
+  after,
+}: {
+  runId: string;
+  parentRunId: string;
+  before: CaseStudy[];
+  after: CaseStudy[];
+}): RunDiffV1 {
+  return { version: 1, runId, parentRunId, createdAt: new Date().toISOString(), ...diffEntries(before, after) };
+}
+
+type ComposedEntry = {
+  id: string;
+  title: string;
+  presentBefore: boolean;
+  presentAfter: boolean;
+  changes: Map<string, FieldChange>;
+  lastRemoved?: CaseStudy;
+};
+
+/** Net effect of consecutive run diffs (oldest first). */
+export function composeRunDiffs(diffs: RunDiffV1[]): DatasetDiff {
+  const byId = new Map<string, ComposedEntry>();
+  const track = (id: string, title: string, presentBefore: boolean) => {
+    let e = byId.get(id);
+    if (!e) {
+      e = { id, title, presentBefore, presentAfter: presentBefore, changes: new Map() };
+      byId.set(id, e);
+    }
+    e.title = title;
+    return e;
+  };
+  // Keep the first `before` and the latest `after` per field.
+  const record = (e: ComposedEntry, changes: FieldChange[]) => {
+    for (const c of changes) {
+      const prev = e.changes.get(c.field);
+      e.changes.set(c.field, { field: c.field, before: prev ? prev.before : c.before, after: c.after });
+    }
+  };
+
+  for (const diff of diffs) {
+    for (const cs of diff.removed) {
+      const e = track(cs.id, cs.title, true);
+      e.presentAfter = false;
+      e.lastRemoved = cs;
+    }
+    for (const m of diff.modified) record(track(m.id, m.title, true), m.changes);
+    for (const cs of diff.added) {
+      const e = track(cs.id, cs.title, false);
+      // Re-added after a removal: the difference is against the entry as it was removed.
+      if (e.lastRemoved) record(e, diffFields(e.lastRemoved, cs));
+      e.presentAfter = true;
+    }
+  }
+
+  const out: DatasetDiff = { added: [], removed: [], modified: [] };
+  for (const e of byId.values()) {
+    if (!e.presentBefore && e.presentAfter) out.added.push({ id: e.id, title: e.title });
+    else if (e.presentBefore && !e.presentAfter) out.removed.push({ id: e.id, title: e.title });
+    else if (e.presentBefore && e.presentAfter) {
+      const changes = [...e.changes.values()].filter((c) => !sameValue(c.before, c.after));
+      if (changes.length) out.modified.push({ id: e.id, title: e.title, changes });
+    }
+  }
+  return out;
+}
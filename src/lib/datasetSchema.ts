@@ -0,0 +1,74 @@
+import type { CaseStudy } from "@/lib/types";
+import { extractCaseStudyAmounts } from "@/lib/money";
+
+/**
+ * Schema versions of the stored dataset (live snapshots and `src/data/case-studies.json`).
+ *
+ * Snapshots are stored as `{ schemaVersion, items }`; a bare array is a version 1 snapshot from
+ * before versioning. Readers migrate older snapshots on the fly and publishing always writes
+ * CURRENT_SCHEMA_VERSION, so a shape change is one new entry in MIGRATIONS plus a bump here.
+ * Migrations only add or fill fields: a reader that predates a version can still use the items.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type SnapshotDocument = { schemaVersion: number; items: CaseStudy[] };
+
+export type DatasetMigration = {
+  from: number; // migrates version `from` to `from + 1`
+  description: string;
+  migrate: (items: CaseStudy[]) => CaseStudy[];
+};
+
+export const MIGRATIONS: DatasetMigration[] = [
+  {
+    from: 1,
+    description: "Make status and structured amounts explicit on every entry.",
+    migrate: (items) =>
+      items.map((cs) => ({
+        ...cs,
+        amounts: cs.amounts ?? extractCaseStudyAmounts(cs),
+        status: cs.status ?? "speculation",
+      })),
+  },
+];
+
+/** Schema version of a stored snapshot, or null when `raw` is not a snapshot at all. */
+export function snapshotSchemaVersion(raw: unknown): number | null {
+  if (Array.isArray(raw)) return 1;
+  if (!raw || typeof raw !== "object") return null;
+  const doc = raw as Partial<SnapshotDocument>;
+  return Number.isInteger(doc.schemaVersion) && Array.isArray(doc.items) ? (doc.schemaVersion as number) : null;
+}
+
+/**
+ * Bring `items` from `fromVersion` up to CURRENT_SCHEMA_VERSION. Items from a newer schema are
+ * returned unchanged (their extra fields are additive).
+ */
+export function migrateCaseStudies(items: CaseStudy[], fromVersion: number) {
+  const applied: DatasetMigration[] = [];
+  let out = items;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS.find((m) => m.from === version);
+    if (!step) throw new Error(`No dataset migration from schema version ${version}.`);
+    out = step.migrate(out);
+    applied.push(step);
+  }
+  return { items: out, applied };
+}
+
+/** Parse a stored snapshot (either layout) and migrate its items; null when it isn't one. */
+export function readSnapshotDocument(raw: unknown): (SnapshotDocument & { storedVersion: number }) | null {
+  const storedVersion = snapshotSchemaVersion(raw);
+  if (storedVersion === null) return null;
+  const items = Array.isArray(raw) ? (raw as CaseStudy[]) : (raw as SnapshotDocument).items;
+  return {
+    schemaVersion: Math.max(storedVersion, CURRENT_SCHEMA_VERSION),
+    storedVersion,
+    items: migrateCaseStudies(items, storedVersion).items,
+  };
+}
+
+export function toSnapshotDocument(items: CaseStudy[]): SnapshotDocument {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, items };
+}
@@ -0,0 +1,221 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { del, list, put } from "@vercel/blob";
+
+/**
+ * Storage backend for everything the pipelines persist: snapshots, manifests, the latest
+ * pointer, per-run audit artifacts, scout jobs and the review queue.
+ *
+ * Objects are JSON documents addressed by pathname (e.g. `case-studies/latest.json`), so the
+ * same layout works on Vercel Blob, in a local directory and in memory. Pick the backend with
+ * DATASET_STORE=vercel|local|memory; setting DATASET_DIR alone selects `local`.
+ */
+
+export type DatasetStoreKind = "vercel" | "local" | "memory";
+
+export type StoredObject = { pathname: string; url: string; size?: number; uploadedAt?: string };
+
+export interface DatasetStore {
+  kind: DatasetStoreKind;
+  /**
+   * Parsed JSON at `pathname`, or null when it does not exist. `fresh` bypasses CDN caches (for
+   * objects that are overwritten, like the latest pointer, when a write depends on the answer).
+   */
+  getJson<T>(pathname: string, opts?: { fresh?: boolean }): Promise<T | null>;
+  /** Write JSON at `pathname`. With `overwrite: false` an existing object is an error. */
+  putJson(pathname: string, value: unknown, opts?: { overwrite?: boolean }): Promise<StoredObject>;
+  /** Objects whose pathname starts with `prefix` (all pages, with size and upload time). */
+  list(prefix: string): Promise<StoredObject[]>;
+  /** Remove objects; missing ones are ignored. */
+  delete(pathnames: string[]): Promise<void>;
+}
+
+export const DATASET_STORE_KINDS: DatasetStoreKind[] = ["vercel", "local", "memory"];
+
+const DEFAULT_LOCAL_DIR = ".data/dataset";
+const DELETE_BATCH = 100;
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  const res = await fetch(url, { cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Fetch failed: ${res.status} ${text.slice(0, 300)}`);
+  }
+  return (await res.json()) as T;
+}
+
+/**
+ * Public Vercel Blob store. Reads go straight to `<base>/<pathname>`; the base comes from
+ * VERCEL_BLOB_BASE_URL or is learned from the first list/put, so `list()` is only needed once.
+ */
+export function createVercelBlobStore(): DatasetStore {
+  let base = (process.env.VERCEL_BLOB_BASE_URL ?? "").trim().replace(/\/+$/, "");
+  const learnBase = (obj: StoredObject) => {
+    if (!base && obj.url.endsWith(`/${obj.pathname}`)) base = obj.url.slice(0, -obj.pathname.length - 1);
+  };
+
+  return {
+    kind: "vercel",
+    async getJson<T>(pathname: string, opts: { fresh?: boolean } = {}) {
+      // Blob URLs are served through a CDN that may hold an overwritten object for up to a minute;
+      // a unique query string skips that cached copy.
+      const bust = opts.fresh ? `?fresh=${Date.now()}-${Math.random().toString(36).slice(2, 8)}` : "";
+      if (base) return fetchJson<T>(`${base}/${pathname}${bust}`);
+      const res = await list({ prefix: pathname, limit: 1 });
+      const blob = res.blobs.find((b) => b.pathname === pathname);
+      if (!blob) return null;
+      learnBase({ pathname: blob.pathname, url: blob.url });
+      return fetchJson<T>(`${blob.url}${bust}`);
+    },
+    async putJson(pathname, value, opts = {}) {
+      const blob = await put(pathname, JSON.stringify(value), {
+        access: "public",
+        contentType: "application/json",
+        addRandomSuffix: false,
+        allowOverwrite: opts.overwrite ?? true,
+      });
+      const obj = { pathname: blob.pathname, url: blob.url };
+      learnBase(obj);
+      return obj;
+    },
+    async list(prefix) {
+      const blobs: StoredObject[] = [];
+      let cursor: string | undefined;
+      do {
+        const res = await list({ prefix, limit: 1000, cursor });
+        for (const b of res.blobs) {
+          blobs.push({ pathname: b.pathname, url: b.url, size: b.size, uploadedAt: new Date(b.uploadedAt).toISOString() });
+        }
+        cursor = res.hasMore ? res.cursor : undefined;
+      } while (cursor);
+      if (blobs[0]) learnBase(blobs[0]);
+      return blobs;
+    },
+    async delete(pathnames) {
+      for (let i = 0; i < pathnames.length; i += DELETE_BATCH) {
+        await del(pathnames.slice(i, i + DELETE_BATCH));
+      }
+    },
+  };
+}
+
+/** Plain files under `dir` (one file per pathname); URLs are `file://` URLs. */
+export function createLocalDirStore(dir: string): DatasetStore {
+  const root = path.resolve(dir);
+  const fileFor = (pathname: string) => {
+    const file = path.resolve(root, pathname);
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid pathname: ${pathname}`);
+    return file;
+  };
+  const toObject = (pathname: string): StoredObject => ({ pathname, url: pathToFileURL(fileFor(pathname)).href });
+
+  async function walk(dirPath: string): Promise<string[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true }).catch(() => []);
+    const nested = await Promise.all(
+      entries.map((e) => {
+        const full = path.join(dirPath, e.name);
+        return e.isDirectory() ? walk(full) : Promise.resolve([full]);
+      }),
+    );
+    return nested.flat();
+  }
+
+  return {
+    kind: "local",
+    async getJson<T>(pathname: string) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(pathname), "utf8")) as T;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async putJson(pathname, value, opts = {}) {
+      const file = fileFor(pathname);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(value), { flag: opts.overwrite === false ? "wx" : "w" });
+      return toObject(pathname);
+    },
+    async list(prefix) {
+      const files = await walk(root);
+      const pathnames = files
+        .map((f) => path.relative(root, f).split(path.sep).join("/"))
+        .filter((p) => p.startsWith(prefix))
+        .sort();
+      return Promise.all(
+        pathnames.map(async (p) => {
+          const stat = await fs.stat(fileFor(p));
+          return { ...toObject(p), size: stat.size, uploadedAt: stat.mtime.toISOString() };
+        }),
+      );
+    },
+    async delete(pathnames) {
+      await Promise.all(pathnames.map((p) => fs.rm(fileFor(p), { force: true })));
+    },
+  };
+}
+
+/** Process-local store for tests and dry runs. */
+export function createMemoryStore(initial: Record<string, unknown> = {}): DatasetStore {
+  const now = new Date().toISOString();
+  const objects = new Map(Object.entries(initial).map(([k, v]) => [k, { raw: JSON.stringify(v), uploadedAt: now }]));
+  const toObject = (pathname: string): StoredObject => ({
+    pathname,
+    url: `memory://${pathname}`,
+    size: Buffer.byteLength(objects.get(pathname)?.raw ?? ""),
+    uploadedAt: objects.get(pathname)?.uploadedAt,
+  });
+  return {
+    kind: "memory",
+    async getJson<T>(pathname: string) {
+      const obj = objects.get(pathname);
+      return obj === undefined ? null : (JSON.parse(obj.raw) as T);
+    },
+    async putJson(pathname, value, opts = {}) {
+      if (opts.overwrite === false && objects.has(pathname)) throw new Error(`Object already exists: ${pathname}`);
+      objects.set(pathname, { raw: JSON.stringify(value), uploadedAt: new Date().toISOString() });
+      return toObject(pathname);
+    },
+    async list(prefix) {
+      return [...objects.keys()]
+        .filter((p) => p.startsWith(prefix))
+        .sort()
+        .map(toObject);
+    },
+    async delete(pathnames) {
+      for (const p of pathnames) objects.delete(p);
+    },
+  };
+}
+
+export function resolveDatasetStoreKind(): DatasetStoreKind {
+  const value = (process.env.DATASET_STORE ?? "").trim().toLowerCase();
+  if ((DATASET_STORE_KINDS as string[]).includes(value)) return value as DatasetStoreKind;
+  return (process.env.DATASET_DIR ?? "").trim() ? "local" : "vercel";
+}
+
+let current: DatasetStore | null = null;
+
+export function getDatasetStore(): DatasetStore {
+  if (current) return current;
+  const kind = resolveDatasetStoreKind();
+  if (kind === "local") current = createLocalDirStore((process.env.DATASET_DIR ?? "").trim() || DEFAULT_LOCAL_DIR);
+  else if (kind === "memory") current = createMemoryStore();
+  else current = createVercelBlobStore();
+  return current;
+}
+
+/** Swap the store for this process (tests, scripts). */
+export function setDatasetStore(store: DatasetStore | null) {
+  current = store;
+}
+
+/** Configuration error for the selected store, or "" when it can be used. */
+export function datasetStoreConfigError() {
+  if (resolveDatasetStoreKind() !== "vercel") return "";
+  return (process.env.BLOB_READ_WRITE_TOKEN ?? "").trim()
+    ? ""
+    : "BLOB_READ_WRITE_TOKEN is missing. Connect Vercel Blob to this project or set DATASET_STORE=local.";
+}
@@ -0,0 +1,301 @@
+import type { CaseStudy } from "@/lib/types";
+import { seedCaseStudies } from "@/lib/seedCaseStudies";
+import { renderWeeklyDigestEmail } from "@/lib/newsletterDigest";
+import { resendCreateBroadcast, resendGetOrCreateSegmentId, resendSendBroadcast } from "@/lib/resendBroadcast";
+import { publishLiveCaseStudies, readLiveDatasetFromBlob } from "@/lib/blobCaseStudies";
+import {
+  enqueueForReview,
+  readReviewQueue,
+  reviewModeFromEnv,
+  splitForReview,
+  type ReviewMode,
+} from "@/lib/blobReviewQueue";
+import {
+  countRejectionsByReason,
+  rejectDuplicateProducts,
+  rejectSchemaInvalid,
+  selectCaseStudyCandidates,
+  type RejectedCandidate,
+} from "@/lib/candidateSelection";
+import type { CandidateCheck } from "@/lib/candidateSchema";
+import type { CandidateExtractor, ExtractionOutcome, ExtractionSource } from "@/lib/candidateExtractor";
+import { SCOUT_CONFIG_VERSION, type ScoutMode } from "@/lib/scoutConfig";
+import { resolveProofFetcher, verifyCaseStudyProofs, type ProofFetcher } from "@/lib/proofVerification";
+import { archiveProofPages } from "@/lib/blobProofArchive";
+import { byCanonicalUrl, canonicalizeUrl } from "@/lib/canonicalUrl";
+import { autoMergeFromEnv, resolveEntities } from "@/lib/entityResolution";
+import { stampProvenance } from "@/lib/provenance";
+
+/**
+ * What a discovery cron does once the model has extracted candidates: policy selection, proof
+ * checks and archiving, provenance, entity resolution and the review split (`planDiscoveryRun`,
+ * also used by `runReplay`), then the run log, publish, review queue and digest email
+ * (`runDiscoveryPipeline`). The weekly-update and story-parser routes only differ in how they
+ * gather research sources.
+ */
+
+export type DiscoveryPipeline = "weekly-update" | "parse-new-stories";
+
+export type DiscoveryScout = {
+  mode: ScoutMode;
+  withinDays: number;
+  cutoffMs: number;
+  find: number;
+};
+
+export type DiscoveryPlan = {
+  accepted: CaseStudy[]; // passed policy, before proof checks
+  rejected: RejectedCandidate[];
+  verification: Awaited<ReturnType<typeof verifyCaseStudyProofs>> | null;
+  archived: number;
+  entities: ReturnType<typeof resolveEntities>;
+  added: CaseStudy[]; // published now
+  queuedForReview: CaseStudy[];
+};
+
+/**
+ * Select, check and sort a run's candidates without publishing anything. Pages are archived
+ * under `runId` only with `archive`; replays pass false so they never write.
+ */
+export async function planDiscoveryRun({
+  pipeline,
+  runId,
+  runDate,
+  scout,
+  sources,
+  candidates,
+  invalid,
+  existing,
+  pending,
+  reviewMode,
+  fetcher,
+  archive,
+  model,
+  researchModel,
+}: {
+  pipeline: DiscoveryPipeline;
+  runId: string;
+  runDate: string;
+  scout: DiscoveryScout;
+  sources: ExtractionSource[];
+  candidates: unknown[];
+  invalid: CandidateCheck["invalid"];
+  existing: CaseStudy[];
+  pending: CaseStudy[];
+  reviewMode: ReviewMode;
+  fetcher: ProofFetcher | null;
+  archive: boolean;
+  model: string;
+  researchModel: string;
+}): Promise<DiscoveryPlan> {
+  // Keyed by canonical URL, so a candidate citing twitter.com or a utm-tagged link still matches.
+  const withSnippet = sources
+    .map((s) => [s.url, (s.snippet ?? "").trim()] as const)
+    .filter(([, snippet]) => Boolean(snippet));
+  const selection = selectCaseStudyCandidates({
+    candidates,
+    // Pending review items count as existing so the next run doesn't stage them twice.
+    existing: [...existing, ...pending],
+    find: scout.find,
+    mode: scout.mode,
+    fallbackDate: runDate,
+    withinDays: scout.withinDays,
+    cutoffMs: scout.cutoffMs,
+    allowedUrls: new Set(sources.map((s) => canonicalizeUrl(s.url))),
+    // Stories (tweets especially) name the product's site without linking a search result for it.
+    allowContextUrls: pipeline === "parse-new-stories",
+    urlSnippetByUrl: byCanonicalUrl(withSnippet),
+    // Which stage surfaced each URL (Grok X Search posts are auto-corroborated).
+    urlStageByUrl: byCanonicalUrl(sources.filter((s) => s.stageId).map((s) => [s.url, s.stageId as string] as const)),
+  });
+  const accepted = selection.added;
+  const rejected = [...rejectSchemaInvalid(invalid), ...selection.rejected];
+
+  // Fetch each proof page and downgrade verified items whose money excerpt isn't on it.
+  const verification = fetcher ? await verifyCaseStudyProofs(accepted, fetcher) : null;
+  // Keep a copy of each fetched proof page so the claims stay checkable if the originals disappear.
+  const archived =
+    verification && archive
+      ? await archiveProofPages({
+          runId,
+          items: verification.items,
+          pages: verification.pages,
+          archivedAt: verification.fetchedAt,
+        })
+      : null;
+
+  const stamped = stampProvenance(archived?.items ?? verification?.items ?? accepted, {
+    runId,
+    pipeline,
+    model,
+    researchModel,
+    scoutConfigVersion: SCOUT_CONFIG_VERSION,
+  });
+  // Same product as an existing entry: merge as a progress update, or let a reviewer decide.
+  // REVIEW_MODE=all reviews updates too; otherwise only verified updates to verified entries merge unreviewed.
+  const entities = resolveEntities({
+    items: stamped,
+    existing,
+    pending,
+    autoMerge: reviewMode !== "all" && autoMergeFromEnv(),
+  });
+  const { publish: added, queue: queuedForReview } = splitForReview(entities.added, reviewMode);
+  rejected.push(...rejectDuplicateProducts(entities));
+  return { accepted, rejected, verification, archived: archived?.archived ?? 0, entities, added, queuedForReview };
+}
+
+export type DigestOptions = {
+  siteUrl: string;
+  apiKey: string;
+  from: string;
+  segmentId: string; // "" looks the segment up (or creates it) by `segmentName`
+  segmentName: string;
+  namePrefix: string; // broadcast name prefix, e.g. "weekly-update"
+};
+
+async function sendDigest(digest: DigestOptions, runDate: string, published: CaseStudy[]) {
+  const segmentId =
+    digest.segmentId || (await resendGetOrCreateSegmentId({ apiKey: digest.apiKey, segmentName: digest.segmentName }));
+  const items = published.slice().sort((a, b) => b.date.localeCompare(a.date));
+  const { name, subject, html, text } = renderWeeklyDigestEmail({
+    siteUrl: digest.siteUrl,
+    items,
+    title: "Weekly email digest — new case studies this week",
+  });
+  const broadcastId = await resendCreateBroadcast({
+    apiKey: digest.apiKey,
+    segmentId,
+    from: digest.from,
+    subject,
+    html,
+    text,
+    name: `${digest.namePrefix}-${runDate}-${name}`,
+  });
+  const sendResult = await resendSendBroadcast({ apiKey: digest.apiKey, broadcastId });
+  return { segmentId, broadcastId, send: sendResult };
+}
+
+/**
+ * Plan the run against the live dataset, publish it (rebasing onto any run that published
+ * meanwhile), queue what needs review and mail the digest. Returns the route's response body.
+ */
+export async function runDiscoveryPipeline({
+  pipeline,
+  runId,
+  runDate,
+  force,
+  scout,
+  research,
+  extractor,
+  extraction,
+  digest,
+}: {
+  pipeline: DiscoveryPipeline;
+  runId: string;
+  runDate: string;
+  force: boolean;
+  scout: DiscoveryScout & { searchLimit: number; recency: string; multiStage?: boolean };
+  research: { model: string; citations: string[]; sources: ExtractionSource[]; summary: string; raw: unknown };
+  extractor: Pick<CandidateExtractor, "backend" | "model">;
+  extraction: ExtractionOutcome;
+  digest: DigestOptions | null; // null: don't send
+}) {
+  const live = (await readLiveDatasetFromBlob({ fresh: true })) ?? { runId: null, items: seedCaseStudies() };
+  const existing = live.items.slice().sort((a, b) => b.date.localeCompare(a.date));
+
+  // With REVIEW_MODE on, some accepted items wait in the review queue instead of going live.
+  const reviewMode = reviewModeFromEnv();
+  const pending = reviewMode === "off" ? [] : (await readReviewQueue()).items.map((x) => x.caseStudy);
+
+  const plan = await planDiscoveryRun({
+    pipeline,
+    runId,
+    runDate,
+    scout,
+    sources: research.sources,
+    candidates: extraction.candidates,
+    invalid: extraction.invalid,
+    existing,
+    pending,
+    reviewMode,
+    fetcher: resolveProofFetcher(),
+    archive: true,
+    model: extractor.model,
+    researchModel: research.model,
+  });
+  const { rejected, entities, added, queuedForReview } = plan;
+
+  const runLog = {
+    runDate,
+    runId,
+    forced: force,
+    scout: {
+      pipeline,
+      configVersion: SCOUT_CONFIG_VERSION,
+      mode: scout.mode,
+      withinDays: scout.withinDays,
+      searchLimit: scout.searchLimit,
+      find: scout.find,
+      recency: scout.recency,
+      multiStage: scout.multiStage,
+    },
+    perplexity: {
+      model: research.model,
+      citations: research.citations,
+      searchResults: research.sources,
+      content: research.summary,
+    },
+    extractor: {
+      backend: extractor.backend,
+      model: extractor.model,
+      usage: extraction.usage,
+      schema: extraction.schema,
+    },
+    generated: {
+      candidateCount: extraction.candidates.length + extraction.invalid.length,
+      addedCount: added.length,
+      reviewMode,
+      queuedForReview: queuedForReview.map((x) => x.id),
+      progressUpdates: entities.updates.map((u) => ({ id: u.targetId, from: u.update.title, match: u.match })),
+      possibleDuplicates: entities.duplicates.map((d) => ({ id: d.caseStudy.id, duplicateOf: d.match })),
+      rejectedCount: rejected.length,
+      rejectedByReason: countRejectionsByReason(rejected),
+      proofChecks: plan.verification?.summary ?? { skipped: true },
+      archivedProofPages: plan.archived,
+      added: added.map(({ id, date, title, amounts, proofSources }) => ({ id, date, title, amounts, proofSources })),
+    },
+  };
+
+  const blobWrite = await publishLiveCaseStudies({
+    runId,
+    base: { ...live, items: existing },
+    added,
+    updates: entities.updates,
+    perplexityRaw: research.raw,
+    claudeRaw: { candidates: extraction.candidates, invalid: extraction.invalid },
+    runLog,
+    rejected,
+  });
+  const review = await enqueueForReview({ runId, items: queuedForReview, duplicates: entities.duplicates });
+  // A rebase drops additions that the newer snapshot already has.
+  const publishedIds = new Set(blobWrite.manifest.addedIds);
+  const published = added.filter((x) => publishedIds.has(x.id));
+
+  const resend =
+    digest && published.length
+      ? await sendDigest(digest, runDate, published)
+      : { skipped: true, reason: "sending-disabled" };
+
+  return {
+    ok: true,
+    runDate,
+    runId,
+    blob: blobWrite,
+    added: published.map((x) => ({ id: x.id, date: x.date, title: x.title })),
+    queuedForReview: queuedForReview.map((x) => ({ id: x.id, date: x.date, title: x.title })),
+    updated: blobWrite.manifest.updatedIds ?? [],
+    possibleDuplicates: entities.duplicates.map((d) => ({ id: d.caseStudy.id, duplicateOf: d.match.id })),
+    reviewQueueSize: review?.items.length,
+    resend,
+  };
+}
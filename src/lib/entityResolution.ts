@@ -0,0 +1,271 @@
+import type { CaseStudy, Revision } from "@/lib/types";
+import { canonicalHost, canonicalizeUrl } from "@/lib/canonicalUrl";
+import { isSocialUrl, isTier1Url, likelySelfBlogUrl, registrableDomain } from "@/lib/caseStudyPolicy";
+import { mergeCaseStudies } from "@/lib/caseStudyEdits";
+import { diffFields } from "@/lib/datasetDiff";
+import { appendRevision } from "@/lib/provenance";
+
+/**
+ * Entity resolution: is a newly accepted case study the same product as one already listed?
+ *
+ * Signals, strongest first: a shared proof URL (canonicalized), the same product domain (the
+ * site or repo the entry is about), the same product name in the title, and overlap of the
+ * distinctive words in title and summary. A shared domain only counts toward a merge together with
+ * the name or text. Scores at or above AUTO_MERGE_SCORE are merged into the existing entry as a
+ * progress update; scores from REVIEW_SCORE go to the review queue.
+ */
+
+export type EntitySignal = "url" | "domain" | "name" | "text";
+
+export type EntityMatch = {
+  id: string;
+  title: string;
+  score: number; // 0-1
+  signals: EntitySignal[];
+};
+
+export const AUTO_MERGE_SCORE = 0.9;
+export const REVIEW_SCORE = 0.6;
+const DOMAIN_ONLY_SCORE = 0.75;
+
+type EntityFeatures = {
+  id: string;
+  title: string;
+  urls: Set<string>;
+  domains: Set<string>;
+  name: string;
+  words: Set<string>;
+};
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have how in into is it its of on or our the their this to was were with why".split(" "),
+);
+
+/** Words every entry uses; they say nothing about which product it is. */
+const GENERIC_WORDS = new Set([
+  ...["ai", "agent", "agents", "agentic", "bot", "bots", "app", "apps", "tool", "tools", "startup", "saas", "llm", "gpt"],
+  ...["hit", "hits", "reach", "reaches", "reached", "make", "makes", "made", "earn", "earns", "earned", "generate"],
+  ...["generates", "generated", "get", "gets", "got", "cross", "crosses", "crossed", "pass", "passes", "passed"],
+  ...["win", "wins", "won", "top", "tops", "grow", "grows", "grew", "built", "build", "builds", "using", "uses"],
+  ...["mrr", "arr", "revenue", "profit", "month", "monthly", "year", "annual", "week", "day", "first", "per"],
+  ...["solo", "indie", "developer", "founder", "maker", "hacker", "team", "just", "over", "than", "after", "only"],
+]);
+
+const NAME_VERBS =
+  /\s+(?:hits?|reach(?:es|ed)?|makes?|made|earn(?:s|ed)?|generat(?:es|ed)|gets?|got|cross(?:es|ed)?|tops?|pass(?:es|ed)?|wins?|won)\b/i;
+
+function words(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[$€£¥₹]\s?[\d.,]+\s?[kmb]?\b/g, " ")
+      .match(/[\p{L}][\p{L}\p{N}'-]+/gu) ?? []
+  ).filter((w) => w.length >= 3 && !STOPWORDS.has(w) && !GENERIC_WORDS.has(w));
+}
+
+/**
+ * Product name from a title: the text before ":" or before the first "hits/reached/makes…",
+ * without leading "How" and generic words. "Acme AI hits $10k MRR" and
+ * "How Acme reached $10,000/month" both give "acme".
+ */
+export function productNameKey(title: string) {
+  const head = title.split(":")[0].split(NAME_VERBS)[0].split(/[$€£¥₹]/)[0];
+  return words(head).slice(0, 3).join(" ");
+}
+
+/**
+ * Platforms that host many products under one domain, keyed by the leading path segments that name
+ * one of them (`kaggle.com/competitions/<slug>`, `huggingface.co/<owner>/<repo>`).
+ */
+const PATH_TENANT_HOSTS: Record<string, number> = {
+  "github.com": 2,
+  "gitlab.com": 2,
+  "huggingface.co": 2,
+  "kaggle.com": 2,
+  "producthunt.com": 2,
+  "apps.apple.com": 3,
+  "play.google.com": 3,
+  "chromewebstore.google.com": 3,
+  "devpost.com": 1,
+};
+
+/**
+ * Site or repo an entry is about: website/dashboard hosts and repos, never shared platforms. Hosted
+ * subdomains (`acme.github.io`, `zeta.vercel.app`) are keyed by the full site, see `registrableDomain`.
+ */
+export function productDomains(cs: Pick<CaseStudy, "proofSources">) {
+  const out = new Set<string>();
+  for (const s of cs.proofSources) {
+    let url: URL;
+    try {
+      url = new URL(canonicalizeUrl(s.url));
+    } catch {
+      continue;
+    }
+    if (s.kind !== "website" && s.kind !== "dashboard" && s.kind !== "repo") continue;
+    if (isSocialUrl(s.url) || isTier1Url(s.url) || likelySelfBlogUrl(s.url)) continue;
+    const host = canonicalHost(url.hostname);
+    const segments = PATH_TENANT_HOSTS[host];
+    if (segments) {
+      const path = url.pathname.split("/").filter(Boolean).slice(0, segments);
+      if (path.length === segments) out.add(`${host}/${path.join("/").toLowerCase()}`);
+      continue;
+    }
+    if (s.kind !== "repo") out.add(registrableDomain(host));
+  }
+  return out;
+}
+
+function entityFeatures(cs: CaseStudy): EntityFeatures {
+  return {
+    id: cs.id,
+    title: cs.title,
+    urls: new Set(cs.proofSources.map((s) => canonicalizeUrl(s.url))),
+    domains: productDomains(cs),
+    name: productNameKey(cs.title),
+    words: new Set(words(`${cs.title} ${cs.summary}`)),
+  };
+}
+
+function dice(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared += 1;
+  return (2 * shared) / (a.size + b.size);
+}
+
+const intersects = (a: Set<string>, b: Set<string>) => [...a].some((x) => b.has(x));
+
+function compare(a: EntityFeatures, b: EntityFeatures): EntityMatch | null {
+  const signals: EntitySignal[] = [];
+  let score = 0;
+  if (intersects(a.urls, b.urls)) {
+    signals.push("url");
+    score = 1;
+  }
+  const text = dice(a.words, b.words);
+  const sameName = Boolean(a.name) && a.name === b.name;
+  if (intersects(a.domains, b.domains)) {
+    // Sites get reused (agencies, launch pages, one company's several products): a domain alone is
+    // worth a review, not a merge.
+    signals.push("domain");
+    score = Math.max(score, sameName || text >= REVIEW_SCORE ? 0.95 : DOMAIN_ONLY_SCORE);
+  }
+  if (sameName) {
+    signals.push("name");
+    score = Math.max(score, 0.7 + 0.3 * text);
+  }
+  if (text >= REVIEW_SCORE) {
+    signals.push("text");
+    score = Math.max(score, text);
+  }
+  if (score < REVIEW_SCORE) return null;
+  return { id: b.id, title: b.title, score: Math.round(score * 100) / 100, signals };
+}
+
+/** Existing entries (retracted ones excluded) to match new candidates against. */
+export function createEntityIndex(items: CaseStudy[]) {
+  const entries = items.filter((cs) => !cs.retracted).map(entityFeatures);
+  return {
+    add(cs: CaseStudy) {
+      entries.push(entityFeatures(cs));
+    },
+    /** Best match for `cs`, or null below REVIEW_SCORE. */
+    match(cs: CaseStudy): EntityMatch | null {
+      const features = entityFeatures(cs);
+      let best: EntityMatch | null = null;
+      for (const entry of entries) {
+        if (entry.id === cs.id) continue;
+        const m = compare(features, entry);
+        if (m && (!best || m.score > best.score)) best = m;
+      }
+      return best;
+    },
+  };
+}
+
+export type EntityIndex = ReturnType<typeof createEntityIndex>;
+
+/** A new item folded into a live entry as a progress update. */
+export type EntityUpdate = { targetId: string; update: CaseStudy; match: EntityMatch };
+
+/** A new item that may repeat an entry; a reviewer decides. */
+export type PossibleDuplicate = { caseStudy: CaseStudy; match: EntityMatch };
+
+/** DEDUPE_AUTO_MERGE=false sends every likely duplicate to review instead of merging it. */
+export function autoMergeFromEnv() {
+  return (process.env.DEDUPE_AUTO_MERGE ?? "true").trim().toLowerCase() !== "false";
+}
+
+/**
+ * Split a run's accepted items into new entries, progress updates to live entries and possible
+ * duplicates. Only verified items merge on their own, and only into verified live entries; matches
+ * against speculation entries, pending review items or earlier items of the same run always go to
+ * review. Pass `autoMerge: false` (e.g. with REVIEW_MODE=all) to send every match to review.
+ */
+export function resolveEntities({
+  items,
+  existing,
+  pending = [],
+  autoMerge = true,
+}: {
+  items: CaseStudy[];
+  existing: CaseStudy[];
+  pending?: CaseStudy[];
+  autoMerge?: boolean;
+}) {
+  const index = createEntityIndex([...existing, ...pending]);
+  const mergeable = new Set(existing.filter((cs) => !cs.retracted && cs.status === "verified").map((cs) => cs.id));
+  const added: CaseStudy[] = [];
+  const updates: EntityUpdate[] = [];
+  const duplicates: PossibleDuplicate[] = [];
+  for (const cs of items) {
+    const match = index.match(cs);
+    if (!match) {
+      added.push(cs);
+    } else if (autoMerge && cs.status === "verified" && match.score >= AUTO_MERGE_SCORE && mergeable.has(match.id)) {
+      updates.push({ targetId: match.id, update: cs, match });
+    } else {
+      duplicates.push({ caseStudy: cs, match });
+    }
+    index.add(cs);
+  }
+  return { added, updates, duplicates };
+}
+
+/** Apply progress updates to a snapshot; updates whose target is gone or retracted are skipped. */
+export function applyEntityUpdates(items: CaseStudy[], updates: EntityUpdate[], runId: string) {
+  const updatedIds: string[] = [];
+  const next = items.map((cs) => {
+    const mine = cs.retracted ? [] : updates.filter((u) => u.targetId === cs.id);
+    if (!mine.length) return cs;
+    updatedIds.push(cs.id);
+    return mine.reduce((acc, u) => mergeProgressUpdate(acc, u.update, { runId }), cs);
+  });
+  return { items: next, updatedIds };
+}
+
+/**
+ * Fold a later report on the same product into `target`: proofs, amounts, tags and mechanisms are
+ * unioned (see `mergeCaseStudies`), the update's summary is appended to the description, and the
+ * change is recorded as an "update" revision.
+ */
+export function mergeProgressUpdate(
+  target: CaseStudy,
+  update: CaseStudy,
+  { runId, at = new Date().toISOString() }: { runId: string; at?: string },
+): CaseStudy {
+  const merged = mergeCaseStudies(target, update);
+  const note = `Update (${update.date}): ${update.summary}`;
+  const next: CaseStudy = merged.description.includes(note)
+    ? merged
+    : { ...merged, description: `${merged.description}\n\n${note}` };
+  const revision: Revision = {
+    op: "update",
+    runId,
+    at,
+    reason: update.title,
+    fields: diffFields(target, next).map((c) => c.field),
+  };
+  return appendRevision(next, revision);
+}
@@ -0,0 +1,30 @@
+import fxRates from "@/data/fx-rates.json";
+import type { CurrencyCode } from "@/lib/types";
+
+/**
+ * Offline, versioned FX table used to normalize amounts to USD.
+ *
+ * Rates are deliberately not fetched at runtime: a case study keeps the
+ * fxVersion it was converted with, and the same table is written next to each
+ * live snapshot so totals can be reproduced later.
+ */
+export type FxTable = {
+  version: string;
+  base: "USD";
+  usdPerUnit: Record<CurrencyCode, number>;
+};
+
+export const FX_TABLE = fxRates as FxTable;
+export const FX_VERSION = FX_TABLE.version;
+
+export const SUPPORTED_CURRENCIES = Object.keys(FX_TABLE.usdPerUnit) as CurrencyCode[];
+
+export function isSupportedCurrency(code: string): code is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(FX_TABLE.usdPerUnit, code);
+}
+
+export function toUsd(value: number, currency: CurrencyCode): number | null {
+  const rate = FX_TABLE.usdPerUnit[currency];
+  if (!Number.isFinite(rate) || !Number.isFinite(value)) return null;
+  return Math.round(value * rate * 100) / 100;
+}
@@ -0,0 +1,234 @@
+import type { CaseStudy, CurrencyCode, MoneyAmount, MoneyMetric, MoneyPeriod } from "@/lib/types";
+import { FX_VERSION, toUsd } from "@/lib/fx";
+
+/**
+ * Shared money parsing for case studies.
+ *
+ * The cron pipelines, the validator and the UI highlighter all need to agree on
+ * what a money amount is, so every regex lives here.
+ */
+
+const NUM_SRC = String.raw`(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?`;
+const SCALE_SRC = String.raw`(?:\s?(?:[Tt]housand|[Mm]illion|[Bb]illion|[Tt]rillion|[Ll]akhs?|[Cc]rores?|[kKmMbB])\b)?`;
+
+// $5k / US$1.2M / €2,500 / £300 / ¥1,000,000 / ₹5 lakh / Rs. 40,000 / EUR 900
+const PREFIX_SRC = String.raw`(?:US\$|\$|€|£|CN¥|¥|₹|\bRs\.?\s?|\b(?:USD|EUR|GBP|JPY|CNY|RMB|INR)\s)`;
+// 2.5 ETH / 10,000 USDC / 500 EUR / 300 €
+const SUFFIX_SRC = String.raw`(?:\s?(?:USDC|USDT|USD|EUR|GBP|JPY|CNY|RMB|INR|ETH|BTC|SOL)\b|\s?€)`;
+
+const AMOUNT_SRC = `(?:${PREFIX_SRC}\\s?${NUM_SRC}${SCALE_SRC}|\\b${NUM_SRC}${SCALE_SRC}${SUFFIX_SRC})`;
+
+const AMOUNT_RE = new RegExp(AMOUNT_SRC);
+
+/**
+ * Highlight regex used by MoneyText. Also picks up MRR/ARR suffixes and ranges.
+ * Examples:
+ * - $2 million
+ * - $5,120 MRR
+ * - $4M / €3M / £1.5M
+ * - $25k-$50k
+ * - 2.5 ETH
+ */
+export const MONEY_HIGHLIGHT_RE = new RegExp(
+  `${AMOUNT_SRC}(?:\\s*(?:MRR|ARR)\\b)?(?:\\s*[-–]\\s*${AMOUNT_SRC}(?:\\s*(?:MRR|ARR)\\b)?)?`,
+  "g",
+);
+
+const SCALE: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  crore: 1e7,
+  crores: 1e7,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  billion: 1e9,
+  trillion: 1e12,
+};
+
+const CURRENCY_BY_MARKER: Array<[RegExp, CurrencyCode]> = [
+  [/USDC/, "USDC"],
+  [/USDT/, "USDT"],
+  [/ETH/, "ETH"],
+  [/BTC/, "BTC"],
+  [/SOL/, "SOL"],
+  [/€|EUR/, "EUR"],
+  [/£|GBP/, "GBP"],
+  [/CN¥|CNY|RMB/, "CNY"],
+  [/¥|JPY/, "JPY"],
+  [/₹|Rs\.?|INR/, "INR"],
+  [/\$|USD/, "USD"],
+];
+
+function currencyOfToken(token: string): CurrencyCode {
+  for (const [re, code] of CURRENCY_BY_MARKER) {
+    if (re.test(token)) return code;
+  }
+  return "USD";
+}
+
+export function hasMoneyAmount(s: string) {
+  // Support $1,234.56, shorthand like $5k / €1.2M, and code/crypto suffixes like 2 ETH.
+  return AMOUNT_RE.test(s);
+}
+
+export function extractFirstMoneyToken(s: string) {
+  const m = s.match(AMOUNT_RE);
+  if (!m) return "";
+  return m[0].replace(/\s+/g, " ").trim();
+}
+
+export function extractFirstShorthandMoneyToken(s: string) {
+  // Prefer a token with an explicit currency; otherwise matches "100k", "1.2m", "2B" and assumes $.
+  const explicit = extractFirstMoneyToken(s);
+  if (explicit) return explicit;
+  const m = s.match(/\d+(?:\.\d+)?\s?(?:[kKmMbB])\b/);
+  if (!m) return "";
+  return `$${m[0].replace(/\s+/g, " ").trim()}`;
+}
+
+function parseAmountValue(token: string) {
+  const m = token.match(/(\d[\d,]*(?:\.\d+)?)(?:\s?([a-z]+)\b)?/i);
+  if (!m) return NaN;
+  const base = Number(m[1].replace(/,/g, ""));
+  const scale = m[2] ? SCALE[m[2].toLowerCase()] ?? 1 : 1;
+  return base * scale;
+}
+
+function inferPeriod(after: string, before: string): MoneyPeriod {
+  if (/^\s*(?:mrr\b|\/\s?(?:mo|month)\b|(?:per|a|each)\s+month\b|monthly\b)/i.test(after)) return "monthly";
+  if (/^\s*(?:arr\b|\/\s?(?:yr|year)\b|(?:per|a|each)\s+year\b|annual(?:ly)?\b|yearly\b)/i.test(after)) return "annual";
+  if (/\b(?:mrr|monthly)\s*(?:of|at|is|:)?\s*$/i.test(before)) return "monthly";
+  if (/\b(?:arr|annual(?:ized)?)\s*(?:of|at|is|:)?\s*$/i.test(before)) return "annual";
+  return "one-off";
+}
+
+function inferMetric(after: string, before: string, period: MoneyPeriod): MoneyMetric {
+  const near = `${before} ${after}`.toLowerCase();
+  if (/^\s*mrr\b/i.test(after) || /\bmrr\s*(?:of|at|is|:)?\s*$/i.test(before)) return "mrr";
+  if (/^\s*arr\b/i.test(after) || /\barr\s*(?:of|at|is|:)?\s*$/i.test(before)) return "arr";
+  if (/\bbount(?:y|ies)\b/.test(near)) return "bounty";
+  if (/\b(?:prizes?|awards?|awarded|won|wins|winners?|payouts?)\b/.test(near)) return "prize";
+  if (/\b(?:sold|acquired|acquisition|sale price|exit)\b/.test(near)) return "sale-price";
+  if (/\b(?:profit|net income|take-home|earnings)\b/.test(near)) return "profit";
+  if (period === "monthly") return "mrr";
+  if (period === "annual") return "arr";
+  return "revenue";
+}
+
+/**
+ * Metric the entry as a whole points to ("wins $20,000 in ... Hackathon", a `bug-bounty` tag), for
+ * amounts whose own clause names none. Null when the title and tags don't say either.
+ */
+function contextMetric(title: string, tags: string[] = []): MoneyMetric | null {
+  const context = `${title} ${tags.join(" ")}`.toLowerCase();
+  if (/\bbount(?:y|ies)\b/.test(context)) return "bounty";
+  if (/\b(?:hackathons?|prizes?|wins|won|winners?|awards?|awarded|competitions?)\b/.test(context)) return "prize";
+  return null;
+}
+
+const CLAUSE_BREAK = /[.!?](?=\s|$)|[;\n]|[$€£¥₹]/;
+const LIST_JOIN = /^\s*(?:,|\/|[-–]|to|,?\s*(?:and|or))\s*$/i;
+
+/**
+ * Parse every money amount in a string, inferring currency, period and metric from nearby words.
+ * Each amount keeps its original currency/value plus a USD-normalized value.
+ */
+export function parseMoneyAmounts(text: string, sourceUrl?: string): MoneyAmount[] {
+  const out: MoneyAmount[] = [];
+  const re = new RegExp(AMOUNT_SRC, "g");
+  let prevEnd = -1;
+  for (const m of text.matchAll(re)) {
+    const token = m[0].trim();
+    const idx = m.index ?? 0;
+    const value = parseAmountValue(token);
+    if (!Number.isFinite(value) || value <= 0) continue;
+    const currency = currencyOfToken(token);
+    // Only look at the clause around the amount so neighbouring amounts don't leak their metric.
+    // Periods only end a clause before whitespace, so "e.g.," and "1.5" don't cut it short.
+    const before = text.slice(Math.max(0, idx - 60), idx).split(CLAUSE_BREAK).pop() ?? "";
+    const after = text.slice(idx + m[0].length, idx + m[0].length + 60).split(CLAUSE_BREAK)[0] ?? "";
+    const period = inferPeriod(after, before);
+    const usdValue = toUsd(value, currency);
+    // In a list or range ("prizes of $25k, $10k and $5k") every amount shares the metric named once.
+    const prev = out[out.length - 1];
+    const listed = prev && prevEnd >= 0 && LIST_JOIN.test(text.slice(prevEnd, idx));
+    let metric = inferMetric(after, before, period);
+    if (listed && metric === "revenue" && prev.period === period) metric = prev.metric;
+    prevEnd = idx + m[0].length;
+    out.push({
+      value,
+      currency,
+      period,
+      metric,
+      text: token,
+      ...(sourceUrl ? { sourceUrl } : {}),
+      ...(usdValue !== null ? { usdValue, fxVersion: FX_VERSION } : {}),
+    });
+  }
+  return out;
+}
+
+/**
+ * Derive structured amounts for a case study from its proof excerpts.
+ *
+ * Only excerpt-backed amounts carry a sourceUrl. When no excerpt has an amount we fall back to
+ * the title so speculation entries still sort/filter by their headline number.
+ * The amount that matches the title (the headline) is returned first. One-off amounts whose
+ * clause names no metric take the one the title and tags imply (a hackathon's "$3,000 in credits").
+ */
+export function extractCaseStudyAmounts(
+  cs: Pick<CaseStudy, "title" | "proofSources"> & Partial<Pick<CaseStudy, "tags">>,
+): MoneyAmount[] {
+  const fallback = contextMetric(cs.title, cs.tags);
+  const withContext = (a: MoneyAmount): MoneyAmount =>
+    fallback && a.metric === "revenue" && a.period === "one-off" ? { ...a, metric: fallback } : a;
+  return headlineFirst(cs).map(withContext);
+}
+
+function headlineFirst(cs: Pick<CaseStudy, "title" | "proofSources">): MoneyAmount[] {
+  const titleAmounts = parseMoneyAmounts(cs.title);
+  const backed: MoneyAmount[] = [];
+  const seen = new Map<string, number>();
+  for (const s of cs.proofSources ?? []) {
+    if (!s.excerpt) continue;
+    for (const a of parseMoneyAmounts(s.excerpt, s.url)) {
+      // The same amount quoted by several sources is one amount; keep the most specific metric any of them gives.
+      const key = `${a.currency}:${a.value}:${a.period}`;
+      const at = seen.get(key);
+      if (at === undefined) {
+        seen.set(key, backed.length);
+        backed.push(a);
+      } else if (backed[at].metric === "revenue" && a.metric !== "revenue") {
+        backed[at] = a;
+      }
+    }
+  }
+
+  if (!backed.length) return titleAmounts.slice(0, 1);
+
+  const headline = titleAmounts[0];
+  if (!headline) return backed;
+  const idx = backed.findIndex((a) => a.currency === headline.currency && a.value === headline.value);
+  if (idx <= 0) return backed;
+  return [backed[idx], ...backed.slice(0, idx), ...backed.slice(idx + 1)];
+}
+
+/**
+ * Headline amount for sorting/filtering (first entry of `amounts`, derived on the fly for older entries).
+ */
+export function primaryAmount(cs: CaseStudy): MoneyAmount | null {
+  const amounts = cs.amounts?.length ? cs.amounts : extractCaseStudyAmounts(cs);
+  return amounts[0] ?? null;
+}
+
+/**
+ * Headline amount in USD (falls back to the raw value when no FX rate applies).
+ */
+export function primaryUsdValue(cs: CaseStudy): number {
+  const a = primaryAmount(cs);
+  if (!a) return 0;
+  return a.usdValue ?? toUsd(a.value, a.currency) ?? a.value;
+}
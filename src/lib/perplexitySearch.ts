@@ -0,0 +1,311 @@
+/**
+ * Perplexity client for the scout pipeline.
+ *
+ * `callPerplexity` is the synchronous search used by the weekly crons; deep research runs as an
+ * async job (start, then poll) because it can take several minutes.
+ */
+
+function formatMmDdYyyyUTC(d: Date) {
+  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  const yyyy = String(d.getUTCFullYear());
+  return `${mm}/${dd}/${yyyy}`;
+}
+
+function extractPerplexityResponseText(json: any) {
+  const output = Array.isArray(json?.output) ? (json.output as any[]) : [];
+  const texts: string[] = [];
+  for (const item of output) {
+    if (item?.type !== "message") continue;
+    const parts = Array.isArray(item?.content) ? (item.content as any[]) : [];
+    for (const part of parts) {
+      if (part?.type === "output_text" && typeof part?.text === "string") {
+        texts.push(part.text);
+      }
+    }
+  }
+  return texts.join("");
+}
+
+type PerplexityDeepResearchJson = {
+  report: string;
+  sources: Array<{
+    title: string;
+    url: string;
+    date: string; // YYYY-MM-DD
+    snippet: string; // verbatim excerpt containing the money amount
+  }>;
+};
+
+export type PerplexityAsyncJob = {
+  id: string;
+  model: string;
+  status: "CREATED" | "IN_PROGRESS" | "COMPLETED" | "FAILED";
+  created_at?: number;
+  started_at?: number | null;
+  completed_at?: number | null;
+  failed_at?: number | null;
+  error_message?: string | null;
+  response?: {
+    id?: string;
+    model?: string;
+    created?: number;
+    citations?: string[];
+    search_results?: Array<{ title?: string; url?: string; date?: string; snippet?: string; source?: string }>;
+    choices?: Array<{ message?: { content?: string; role?: string } }>;
+  } | null;
+};
+
+export async function fetchPerplexityAsyncJob(requestId: string): Promise<PerplexityAsyncJob> {
+  const apiKey = process.env.PERPLEXITY_API_KEY ?? "";
+  const res = await fetch(`https://api.perplexity.ai/async/chat/completions/${encodeURIComponent(requestId)}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+    },
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Perplexity async failed: ${res.status} ${body.slice(0, 1500)}`);
+  }
+  return (await res.json()) as PerplexityAsyncJob;
+}
+
+export type PerplexitySearchResult = {
+  model?: string;
+  content: string;
+  citations: string[];
+  searchResults: Array<{ title?: string; url?: string; date?: string; snippet?: string }>;
+  raw: unknown;
+};
+
+/**
+ * Synchronous web search (sonar-pro, or a PERPLEXITY_PRESET deep-research call with fallback).
+ */
+export async function callPerplexity({
+  query,
+  recency,
+  numSearchResults,
+  withinDays,
+  todayUtc,
+  excludeHosts,
+}: {
+  query: string;
+  recency: "day" | "week" | "month" | "year";
+  numSearchResults: number;
+  withinDays: number;
+  todayUtc: Date;
+  /** Hosts kept out of search results (Perplexity allows 20 deny entries). */
+  excludeHosts: readonly string[];
+}): Promise<PerplexitySearchResult> {
+  const apiKey = process.env.PERPLEXITY_API_KEY ?? "";
+  const socialDeny = excludeHosts.map((d) => `-${d}`);
+  const cutoffUtc = withinDays ? new Date(todayUtc.getTime() - withinDays * 86_400_000) : null;
+
+  const schema = {
+    type: "object",
+    additionalProperties: false,
+    required: ["report", "sources"],
+    properties: {
+      report: { type: "string" },
+      sources: {
+        type: "array",
+        maxItems: 25,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["title", "url", "date", "snippet"],
+          properties: {
+            title: { type: "string" },
+            url: { type: "string" },
+            date: { type: "string", description: "YYYY-MM-DD" },
+            snippet: { type: "string", description: "Verbatim excerpt containing the money amount." },
+          },
+        },
+      },
+    },
+  };
+
+  const instructions = [
+    "You are a research agent for AgentProfit.ai.",
+    "Goal: find SPECIFIC, real examples of AI agents, AI tools, AI SaaS, or AI-powered products that earned money with explicit money amounts (USD, EUR, GBP, JPY, CNY, INR, or crypto payouts such as ETH/USDC).",
+    "Look for: revenue, MRR, ARR, profit, prize payouts, bounty winnings, sale prices, freelance/consulting income.",
+    "Exclude fundraising/valuations/grants/market size projections.",
+    "Prefer: IndieHackers, ProductHunt, HackerNews, Devpost, Kaggle, YouTube, GitHub, personal blogs, news articles. X/Twitter indie maker posts are allowed.",
+    "Output MUST be valid JSON matching the provided schema.",
+    "In sources[].snippet, include a VERBATIM quote that contains the money amount.",
+    `Return at most ${Math.max(5, Math.min(25, numSearchResults))} sources.`,
+  ].join("\n");
+
+  const toolFilters: any = {
+    search_domain_filter: socialDeny.slice(0, 20),
+  };
+  // Prefer explicit published + last-updated windows when we have a cutoff.
+  // (Docs note recency can't be combined with explicit date filters.)
+  if (cutoffUtc) {
+    toolFilters.search_after_date_filter = formatMmDdYyyyUTC(cutoffUtc);
+    toolFilters.search_before_date_filter = formatMmDdYyyyUTC(todayUtc);
+  } else {
+    toolFilters.search_recency_filter = recency;
+  }
+
+  async function callChatCompletions() {
+    const model = process.env.PERPLEXITY_MODEL ?? "sonar-pro";
+    const res = await fetch("https://api.perplexity.ai/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        messages: [
+          {
+            role: "user",
+            content: [
+              "Find SPECIFIC, real examples of AI agents, AI tools, AI SaaS products, or AI-powered businesses that earned money with explicit money amounts (USD, EUR, GBP, JPY, CNY, INR, or crypto payouts such as ETH/USDC).",
+              "I need concrete case studies with named products/companies/people and verifiable dollar figures (revenue, MRR, ARR, profit, prize money, bounty payouts).",
+              "Exclude: fundraising rounds, valuations, grants, market size projections, trend articles.",
+              "Good sources: IndieHackers posts, ProductHunt launches with revenue, HackerNews discussions, YouTube case studies, blog posts with revenue numbers, Devpost winners, X/Twitter indie maker revenue screenshots.",
+              `Return up to ${Math.max(5, Math.min(25, numSearchResults))} sources, each with a verbatim snippet containing a money amount.`,
+              "",
+              `Query: ${query}`,
+            ].join("\n"),
+          },
+        ],
+        web_search_options: {
+          search_context_size: "high",
+          ...toolFilters,
+        },
+      }),
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      throw new Error(`Perplexity chat/completions failed: ${res.status} ${body.slice(0, 1500)}`);
+    }
+
+    const json = (await res.json()) as any;
+    const content =
+      typeof json?.choices?.[0]?.message?.content === "string" ? (json.choices[0].message.content as string) : "";
+    const citations = Array.isArray(json?.citations) ? (json.citations as any[]).map(String).filter(Boolean) : [];
+    const searchResults = Array.isArray(json?.search_results) ? (json.search_results as any[]) : [];
+    return { model: String(json?.model ?? model), content, citations, searchResults, raw: json };
+  }
+
+  // Optional attempt: Agentic Research deep-research (can be slow). If it fails/timeouts, fall back to chat/completions.
+  const preset = (process.env.PERPLEXITY_PRESET ?? "").trim();
+  if (preset) {
+    const timeoutMs = Math.max(
+      10_000,
+      Math.min(120_000, Number(process.env.PERPLEXITY_TIMEOUT_MS ?? "35000") || 35_000),
+    );
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch("https://api.perplexity.ai/v1/responses", {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          preset,
+          input: query,
+          instructions,
+          max_steps: 4,
+          max_output_tokens: 1500,
+          tools: [
+            {
+              type: "web_search",
+              filters: toolFilters,
+            },
+          ],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "agentprofit_deep_research", schema, strict: true },
+          },
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Perplexity responses failed: ${res.status} ${body.slice(0, 1500)}`);
+      }
+
+      const json = (await res.json()) as any;
+      const text = extractPerplexityResponseText(json);
+      const parsed = JSON.parse(text) as PerplexityDeepResearchJson;
+      const citations = Array.isArray(parsed?.sources) ? parsed.sources.map((s) => s.url).filter(Boolean) : [];
+      const searchResults = Array.isArray(parsed?.sources) ? parsed.sources : [];
+      return { model: String(json?.model ?? preset), content: parsed?.report ?? "", citations, searchResults, raw: json };
+    } catch {
+      // Fall back below.
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  return callChatCompletions();
+}
+
+/**
+ * Start a sonar-deep-research job; returns the request id to poll with fetchPerplexityAsyncJob.
+ */
+export async function startPerplexityDeepResearch({
+  query,
+  withinDays,
+  searchLimit,
+}: {
+  query: string;
+  withinDays: number;
+  searchLimit: number;
+}) {
+  const apiKey = process.env.PERPLEXITY_API_KEY ?? "";
+  const res = await fetch("https://api.perplexity.ai/async/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      request: {
+        model: "sonar-deep-research",
+        search_mode: "web",
+        reasoning_effort: "low",
+        temperature: 0.2,
+        max_tokens: 2400,
+        // Use recency for robustness; the parser still hard-filters results by withinDays.
+        search_recency_filter: withinDays > 7 ? "month" : "week",
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are a research agent. Prefer primary sources and reputable reporting. Avoid Facebook, TikTok, Instagram, Discord, Telegram. YouTube, X/Twitter indie maker posts, IndieHackers, HackerNews, and ProductHunt are allowed.",
+          },
+          {
+            role: "user",
+            content: [
+              "Find publicly verifiable examples of AI agents, AI tools, AI SaaS, or AI-powered products that made money with explicit money amounts (USD, EUR, GBP, JPY, CNY, INR, or crypto payouts such as ETH/USDC).",
+              "Exclude fundraising/valuations/grants.",
+              `Return up to ${Math.max(5, Math.min(25, searchLimit))} sources with title, url, date, snippet (include a verbatim quote containing the money amount when possible).`,
+              "",
+              `Query: ${query}`,
+            ].join("\n"),
+          },
+        ],
+        web_search_options: { search_context_size: "high" },
+      },
+    }),
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Perplexity async start failed: ${res.status} ${body.slice(0, 500)}`);
+  }
+  const json = (await res.json()) as { id?: unknown };
+  const requestId = String(json?.id ?? "").trim();
+  if (!requestId) throw new Error("Perplexity async start returned no request id.");
+  return requestId;
+}
@@ -0,0 +1,338 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { CaseStudy, ProofCheck, ProofSource } from "@/lib/types";
+import { canonicalHost, canonicalizeUrl } from "@/lib/canonicalUrl";
+import { hasMoneyAmount, parseMoneyAmounts } from "@/lib/money";
+import { assertPublicUrl } from "@/lib/publicAddress";
+
+/**
+ * Checks proof excerpts against the pages they claim to quote. Each proof URL with an excerpt
+ * is fetched once per run, reduced to readable text and fuzzy-matched against the excerpt and
+ * its money amounts; the result is stored on the source as `check`.
+ *
+ * A check only downgrades an entry on evidence: fetch failures (timeouts, bot blocks, 5xx) and hosts that
+ * render posts with JavaScript (X, LinkedIn, ...) are recorded but inconclusive.
+ *
+ * The fetcher is pluggable: PROOF_FETCHER=off skips verification, and with RESEARCH_FIXTURES_DIR
+ * set pages are served from `<dir>/proof-pages.json` so offline runs never touch the network.
+ * The HTTP fetcher only talks to public addresses (see `assertPublicUrl`), checked again on every redirect.
+ */
+
+export type ProofFetcherBackend = "http" | "fixtures" | "stub" | "archive";
+
+export type FetchedPage = {
+  status: number;
+  contentType: string;
+  body: string;
+  finalUrl?: string;
+  publicHost?: boolean; // every hop passed the public-address check (offline fetchers: always); required to archive
+};
+
+export interface ProofFetcher {
+  backend: ProofFetcherBackend;
+  fetch(url: string): Promise<FetchedPage>;
+}
+
+export type ProofVerificationSummary = {
+  backend: ProofFetcherBackend;
+  checked: number;
+  found: number;
+  notFound: number;
+  clientRendered: number;
+  fetchFailed: number;
+  downgraded: string[]; // ids moved from verified to speculation
+};
+
+/** Share of the excerpt that must appear on the page for it to count as found. */
+export const MATCH_THRESHOLD = 0.8;
+
+/** Hosts whose server HTML never contains the post text (a bot fetch sees an app shell or login wall). */
+const CLIENT_RENDERED_HOSTS = new Set([
+  "x.com",
+  "linkedin.com",
+  "instagram.com",
+  "facebook.com",
+  "threads.net",
+  "tiktok.com",
+]);
+
+export function rendersClientSide(url: string) {
+  try {
+    return CLIENT_RENDERED_HOSTS.has(canonicalHost(new URL(url).hostname));
+  } catch {
+    return false;
+  }
+}
+
+const MAX_PAGE_BYTES = 4_000_000;
+const MAX_PAGE_CHARS = 2_000_000;
+const MAX_REDIRECTS = 5;
+const FETCH_CONCURRENCY = 4;
+const USER_AGENT = "Mozilla/5.0 (compatible; AgentProfitBot/1.0; +https://agentprofit.ai)";
+
+function fetchTimeoutMs() {
+  const n = Number(process.env.PROOF_FETCH_TIMEOUT_MS ?? "");
+  return Number.isFinite(n) && n > 0 ? n : 10_000;
+}
+
+/** Read at most `MAX_PAGE_BYTES` of the body; the rest is dropped unread. */
+async function readCappedBody(res: Response) {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_PAGE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+  const bytes = Buffer.concat(chunks).subarray(0, MAX_PAGE_BYTES);
+  return new TextDecoder().decode(bytes).slice(0, MAX_PAGE_CHARS);
+}
+
+function createHttpProofFetcher(): ProofFetcher {
+  return {
+    backend: "http",
+    async fetch(url) {
+      const signal = AbortSignal.timeout(fetchTimeoutMs());
+      let current = url;
+      // Redirects are followed by hand so every hop gets the public-address check.
+      for (let hop = 0; ; hop++) {
+        await assertPublicUrl(current);
+        const res = await fetch(current, {
+          redirect: "manual",
+          signal,
+          headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5" },
+        });
+        const location = res.headers.get("location");
+        if (res.status >= 300 && res.status < 400 && location) {
+          await res.body?.cancel().catch(() => undefined);
+          if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects (${MAX_REDIRECTS})`);
+          current = new URL(location, current).toString();
+          continue;
+        }
+        const body = await readCappedBody(res);
+        return {
+          status: res.status,
+          contentType: res.headers.get("content-type") ?? "",
+          body,
+          finalUrl: current,
+          publicHost: true,
+        };
+      }
+    },
+  };
+}
+
+/** Serves pages from memory (URL → HTML); unknown URLs are 404s. Nothing is fetched, so pages count as public. */
+export function createStubProofFetcher(pages: Record<string, string>): ProofFetcher {
+  return {
+    backend: "stub",
+    async fetch(url) {
+      const body = pages[url];
+      return body === undefined
+        ? { status: 404, contentType: "text/plain", body: "" }
+        : { status: 200, contentType: "text/html", body, publicHost: true };
+    },
+  };
+}
+
+/** Replays `<dir>/proof-pages.json`, a `{ [url]: html }` map recorded from real pages. */
+export function createFixtureProofFetcher(dir: string): ProofFetcher {
+  let pages: Promise<Record<string, string>> | null = null;
+  const load = async () => {
+    try {
+      return JSON.parse(await readFile(path.resolve(dir, "proof-pages.json"), "utf8")) as Record<string, string>;
+    } catch {
+      return {};
+    }
+  };
+  return {
+    backend: "fixtures",
+    async fetch(url) {
+      pages ??= load();
+      return createStubProofFetcher(await pages).fetch(url);
+    },
+  };
+}
+
+/** Fetcher for this run, or null when PROOF_FETCHER=off. */
+export function resolveProofFetcher(): ProofFetcher | null {
+  if ((process.env.PROOF_FETCHER ?? "").trim().toLowerCase() === "off") return null;
+  const fixturesDir = (process.env.RESEARCH_FIXTURES_DIR ?? "").trim();
+  if (fixturesDir) return createFixtureProofFetcher(fixturesDir);
+  return createHttpProofFetcher();
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n < 0x110000 ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+/**
+ * Readable text of a page: body text without scripts and styles, preceded by the description
+ * meta tags (social posts often only carry their text there).
+ */
+export function extractReadableText(body: string, contentType = "text/html") {
+  if (!/html|xml/i.test(contentType) && !/<html|<body/i.test(body.slice(0, 2000))) return body;
+  const metas = [...body.matchAll(/<meta\s[^>]*(?:name|property)=["'](?:og:|twitter:)?description["'][^>]*>/gi)]
+    .map((m) => /content=["']([^"']*)["']/i.exec(m[0])?.[1] ?? "")
+    .filter(Boolean);
+  const text = body
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]+>/g, " ");
+  return decodeEntities([...metas, text].join("\n")).replace(/\s+/g, " ").trim();
+}
+
+function matchTokens(s: string) {
+  const normalized = s
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/(\d),(?=\d{3}\b)/g, "$1");
+  return normalized.match(/[$€£¥₹]?[\p{L}\p{N}]+(?:\.\d+)?/gu) ?? [];
+}
+
+function shingles(tokens: string[], size: number) {
+  const out: string[] = [];
+  for (let i = 0; i + size <= tokens.length; i += 1) out.push(tokens.slice(i, i + size).join(" "));
+  return out;
+}
+
+/**
+ * Fuzzy match: the share of the excerpt's word trigrams that occur on the page (1 when the
+ * whole excerpt appears verbatim). Tolerates ellipses, punctuation and whitespace changes.
+ */
+export function excerptMatchScore(excerpt: string, pageText: string) {
+  const ex = matchTokens(excerpt);
+  if (!ex.length) return 0;
+  const page = matchTokens(pageText);
+  if (` ${page.join(" ")} `.includes(` ${ex.join(" ")} `)) return 1;
+  const size = Math.min(3, ex.length);
+  const pageSet = new Set(shingles(page, size));
+  const wanted = shingles(ex, size);
+  const hits = wanted.filter((s) => pageSet.has(s)).length;
+  return Math.round((hits / wanted.length) * 100) / 100;
+}
+
+/** True when the excerpt has money amounts and each one appears (same currency and value) on the page. */
+export function excerptAmountsOnPage(excerpt: string, pageText: string) {
+  const wanted = parseMoneyAmounts(excerpt);
+  if (!wanted.length) return false;
+  const onPage = parseMoneyAmounts(pageText);
+  return wanted.every((a) =>
+    onPage.some((b) => b.currency === a.currency && Math.abs(b.value - a.value) <= a.value * 0.005),
+  );
+}
+
+/** Check `excerpt` on the page fetched from `url`; a miss on a client-rendered host is `client-rendered`. */
+export function checkExcerptOnPage(excerpt: string, page: FetchedPage, fetchedAt: string, url = ""): ProofCheck {
+  if (page.status < 200 || page.status >= 300) {
+    return { status: "fetch-failed", fetchedAt, score: 0, amountFound: false, httpStatus: page.status };
+  }
+  const text = extractReadableText(page.body, page.contentType);
+  const score = excerptMatchScore(excerpt, text);
+  const amountFound = excerptAmountsOnPage(excerpt, text);
+  const found = score >= MATCH_THRESHOLD && (amountFound || !hasMoneyAmount(excerpt));
+  const unrendered = !found && [url, page.finalUrl ?? ""].some(rendersClientSide);
+  const status = found ? "found" : unrendered ? "client-rendered" : "not-found";
+  return { status, fetchedAt, score, amountFound, httpStatus: page.status };
+}
+
+async function forEachPool<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * A verified entry keeps its status when one of its money excerpts was found on its page, or when none
+ * was conclusively missing (every check failed to fetch or hit a client-rendered host).
+ */
+function keepsVerified(sources: ProofSource[]) {
+  const checked = sources.filter((s) => s.check && s.excerpt && hasMoneyAmount(s.excerpt));
+  if (checked.some((s) => s.check?.status === "found" && s.check.amountFound)) return true;
+  return !checked.some((s) => s.check?.status === "not-found");
+}
+
+/**
+ * Fetched page per canonical URL (see `canonicalizeUrl`), or the error message when the fetch threw.
+ * Look pages up with `proofPageFor`.
+ */
+export type ProofPages = Map<string, FetchedPage | string>;
+
+export const proofPageFor = (pages: ProofPages, url: string) => pages.get(canonicalizeUrl(url));
+
+/** Fetch each page once: URLs that canonicalize the same (x.com/twitter.com, utm tags) share one fetch. */
+export async function fetchProofPages(urls: string[], fetcher: ProofFetcher): Promise<ProofPages> {
+  const byKey = new Map<string, string>();
+  for (const url of urls) {
+    const key = canonicalizeUrl(url);
+    if (!byKey.has(key)) byKey.set(key, url);
+  }
+  const pages: ProofPages = new Map();
+  await forEachPool([...byKey], FETCH_CONCURRENCY, async ([key, url]) => {
+    try {
+      pages.set(key, await fetcher.fetch(url));
+    } catch (e) {
+      pages.set(key, e instanceof Error ? e.message : "Fetch failed");
+    }
+  });
+  return pages;
+}
+
+/**
+ * Check every proof source that has an excerpt and downgrade verified entries whose money
+ * excerpt is missing from its page (see `keepsVerified`). Every proof URL is fetched,
+ * and the pages are returned so the run can archive them.
+ */
+export async function verifyCaseStudyProofs(
+  items: CaseStudy[],
+  fetcher: ProofFetcher,
+): Promise<{ items: CaseStudy[]; summary: ProofVerificationSummary; pages: ProofPages; fetchedAt: string }> {
+  const pages = await fetchProofPages(items.flatMap((cs) => cs.proofSources.map((s) => s.url)), fetcher);
+
+  const fetchedAt = new Date().toISOString();
+  const summary: ProofVerificationSummary = {
+    backend: fetcher.backend,
+    checked: 0,
+    found: 0,
+    notFound: 0,
+    clientRendered: 0,
+    fetchFailed: 0,
+    downgraded: [],
+  };
+  const out = items.map((cs) => {
+    const proofSources = cs.proofSources.map((s): ProofSource => {
+      const page = s.excerpt ? proofPageFor(pages, s.url) : undefined;
+      if (!s.excerpt || page === undefined) return s;
+      const check: ProofCheck =
+        typeof page === "string"
+          ? { status: "fetch-failed", fetchedAt, score: 0, amountFound: false, error: page }
+          : checkExcerptOnPage(s.excerpt, page, fetchedAt, s.url);
+      summary.checked += 1;
+      if (check.status === "found") summary.found += 1;
+      else if (check.status === "not-found") summary.notFound += 1;
+      else if (check.status === "client-rendered") summary.clientRendered += 1;
+      else summary.fetchFailed += 1;
+      return { ...s, check };
+    });
+    const downgrade = cs.status === "verified" && !keepsVerified(proofSources);
+    if (downgrade) summary.downgraded.push(cs.id);
+    return { ...cs, proofSources, ...(downgrade ? { status: "speculation" as const } : {}) };
+  });
+  return { items: out, summary, pages, fetchedAt };
+}
@@ -0,0 +1,26 @@
+import type { CaseStudy, Provenance, Revision } from "@/lib/types";
+
+/**
+ * Per-entry provenance: the scout run, models and config that produced an entry, plus every
+ * later revision. Stamped by the pipelines on accepted items; review approvals and admin edits
+ * append to `history`.
+ */
+
+export type RunProvenance = Omit<Provenance, "stageIds" | "history"> & { runId: string };
+
+/** Research stages that surfaced an entry's proof sources, in first-seen order. */
+export function proofStageIds(cs: Pick<CaseStudy, "proofSources">) {
+  return [...new Set(cs.proofSources.flatMap((s) => (s.stageId ? [s.stageId] : [])))];
+}
+
+export function stampProvenance(items: CaseStudy[], run: RunProvenance): CaseStudy[] {
+  return items.map((cs) => {
+    const stageIds = proofStageIds(cs);
+    return { ...cs, provenance: { ...run, ...(stageIds.length ? { stageIds } : {}) } };
+  });
+}
+
+export function appendRevision(cs: CaseStudy, revision: Revision): CaseStudy {
+  const provenance = cs.provenance ?? {};
+  return { ...cs, provenance: { ...provenance, history: [...(provenance.history ?? []), revision] } };
+}
@@ -0,0 +1,105 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+/**
+ * Guards for fetching URLs chosen by a model: only http(s) URLs whose host resolves exclusively to
+ * public addresses may be fetched, so a proof URL (or a redirect) can't reach loopback, private
+ * ranges or cloud metadata endpoints like 169.254.169.254.
+ */
+
+export class NonPublicAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonPublicAddressError";
+  }
+}
+
+/** IPv4 ranges that are not globally routable: [first octets, prefix length]. */
+const PRIVATE_V4: Array<[number[], number]> = [
+  [[0], 8], // "this" network
+  [[10], 8],
+  [[100, 64], 10], // carrier-grade NAT
+  [[127], 8],
+  [[169, 254], 16], // link-local, cloud metadata
+  [[172, 16], 12],
+  [[192, 0, 0], 24],
+  [[192, 0, 2], 24],
+  [[192, 168], 16],
+  [[198, 18], 15],
+  [[198, 51, 100], 24],
+  [[203, 0, 113], 24],
+  [[224], 4], // multicast
+  [[240], 4], // reserved, broadcast
+];
+
+function v4ToInt(ip: string) {
+  return ip.split(".").reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function isPublicV4(ip: string) {
+  const n = v4ToInt(ip);
+  return !PRIVATE_V4.some(([octets, bits]) => {
+    const base = v4ToInt([...octets, 0, 0, 0].slice(0, 4).join("."));
+    const size = 2 ** (32 - bits);
+    return n >= base && n < base + size;
+  });
+}
+
+/** Expand an IPv6 address into its eight 16-bit groups. */
+function v6Groups(ip: string): number[] {
+  let s = ip.toLowerCase().split("%")[0];
+  const v4Tail = s.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (v4Tail) {
+    const n = v4ToInt(v4Tail);
+    s = `${s.slice(0, -v4Tail.length)}${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = s.includes("::") ? s.split("::") : [s, null];
+  const left = head ? head.split(":") : [];
+  const right = tail ? tail.split(":") : [];
+  const fill = tail === null ? [] : Array(8 - left.length - right.length).fill("0");
+  return [...left, ...fill, ...right].map((g) => parseInt(g || "0", 16));
+}
+
+function isPublicV6(ip: string) {
+  const g = v6Groups(ip);
+  if (g.length !== 8) return false;
+  if (g.every((x) => x === 0)) return false; // ::
+  if (g.slice(0, 7).every((x) => x === 0) && g[7] === 1) return false; // ::1
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address.
+  const mapped = g.slice(0, 5).every((x) => x === 0) && g[5] === 0xffff;
+  const nat64 = g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0);
+  if (mapped || nat64) return isPublicV4(`${g[6] >> 8}.${g[6] & 255}.${g[7] >> 8}.${g[7] & 255}`);
+  if ((g[0] & 0xfe00) === 0xfc00) return false; // unique local
+  if ((g[0] & 0xffc0) === 0xfe80) return false; // link-local
+  if ((g[0] & 0xff00) === 0xff00) return false; // multicast
+  if (g[0] === 0x2001 && g[1] === 0x0db8) return false; // documentation
+  return true;
+}
+
+export function isPublicAddress(ip: string) {
+  const family = isIP(ip);
+  if (family === 4) return isPublicV4(ip);
+  if (family === 6) return isPublicV6(ip);
+  return false;
+}
+
+/**
+ * Throw `NonPublicAddressError` unless `url` is http(s) and every address its host resolves to is public.
+ */
+export async function assertPublicUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new NonPublicAddressError(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new NonPublicAddressError(`Unsupported scheme: ${parsed.protocol}`);
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  const blocked = addresses.find((a) => !isPublicAddress(a));
+  if (!addresses.length || blocked) {
+    throw new NonPublicAddressError(`${parsed.hostname} resolves to a non-public address${blocked ? ` (${blocked})` : ""}`);
+  }
+}
@@ -0,0 +1,228 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { ResearchProvider as ProviderId, StageSource } from "@/lib/blobScoutAsync";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import { callGrokXSearch } from "@/lib/grokSearch";
+import { callPerplexity, fetchPerplexityAsyncJob, startPerplexityDeepResearch } from "@/lib/perplexitySearch";
+import { searchYouTubeTranscripts } from "@/lib/youtubeSearch";
+
+/**
+ * One interface over every research backend. Each provider turns a query into `StageSource[]`
+ * plus a summary; async providers (Perplexity deep research) also expose start/poll.
+ *
+ * With RESEARCH_FIXTURES_DIR set, every provider is replaced by a fixture provider that replays
+ * recorded JSON from disk, so the pipeline runs offline without Perplexity, xAI or Google keys.
+ */
+
+export type ResearchRequest = {
+  stageId: string;
+  query: string;
+  withinDays: number;
+  searchLimit: number;
+  recency?: "day" | "week" | "month" | "year";
+  /** Hosts to keep out of web search results. */
+  excludeHosts?: readonly string[];
+};
+
+export type ResearchResult = {
+  sources: StageSource[];
+  summary: string;
+  model: string;
+  citations: string[];
+  raw?: unknown;
+};
+
+export type ResearchJob =
+  | { status: "in_progress" }
+  | { status: "failed"; error: string }
+  | { status: "completed"; result: ResearchResult };
+
+export interface ResearchProvider {
+  id: ProviderId;
+  /** Env var the provider needs, or "" when it runs without one. */
+  keyEnv: string;
+  /** Run a search and wait for the result. */
+  search(req: ResearchRequest): Promise<ResearchResult>;
+  /** Async providers: start a job and return a request id for `poll`. */
+  start?(req: ResearchRequest): Promise<string>;
+  poll?(requestId: string, req: Pick<ResearchRequest, "stageId">): Promise<ResearchJob>;
+}
+
+type RawSource = { title?: unknown; url?: unknown; date?: unknown; snippet?: unknown };
+
+function isHttpUrl(url: string) {
+  return /^https?:\/\//i.test(url);
+}
+
+function isoDaysAgo(days: number) {
+  return new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Normalize provider results; when there are no search results, fall back to bare citations.
+ * Results for the same page (same canonical URL) are kept once.
+ */
+function toStageSources(stageId: string, results: RawSource[], citations: string[]): StageSource[] {
+  const raw: RawSource[] = results.length ? results : citations.map((u) => ({ title: u, url: u }));
+  const seenUrls = new Set<string>();
+  return raw
+    .map((r) => ({
+      title: String(r?.title ?? "").trim(),
+      url: String(r?.url ?? "").trim(),
+      date: typeof r?.date === "string" ? r.date : undefined,
+      snippet: typeof r?.snippet === "string" ? r.snippet : undefined,
+      stageId,
+    }))
+    .filter((s) => s.title && s.url && isHttpUrl(s.url))
+    .filter((s) => {
+      const key = canonicalizeUrl(s.url);
+      if (seenUrls.has(key)) return false;
+      seenUrls.add(key);
+      return true;
+    });
+}
+
+const perplexityProvider: ResearchProvider = {
+  id: "perplexity",
+  keyEnv: "PERPLEXITY_API_KEY",
+  async search(req) {
+    const now = new Date();
+    const p = await callPerplexity({
+      query: req.query,
+      recency: req.recency ?? "week",
+      numSearchResults: Math.max(10, req.searchLimit),
+      withinDays: req.withinDays,
+      todayUtc: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+      excludeHosts: req.excludeHosts ?? [],
+    });
+    return {
+      sources: toStageSources(req.stageId, p.searchResults, p.citations),
+      summary: p.content,
+      model: p.model ?? "",
+      citations: p.citations,
+      raw: p.raw,
+    };
+  },
+  start(req) {
+    return startPerplexityDeepResearch(req);
+  },
+  async poll(requestId, req) {
+    const job = await fetchPerplexityAsyncJob(requestId);
+    if (job.status === "FAILED") return { status: "failed", error: (job.error_message ?? "").trim() || "unknown error" };
+    if (job.status !== "COMPLETED") return { status: "in_progress" };
+    const resp = job.response ?? {};
+    const results = Array.isArray(resp.search_results) ? resp.search_results : [];
+    const citations = Array.isArray(resp.citations)
+      ? resp.citations.map(String).filter(Boolean)
+      : results.map((s) => String(s?.url ?? "")).filter(Boolean);
+    return {
+      status: "completed",
+      result: {
+        // Deep-research often returns citations but not search_results.
+        sources: toStageSources(req.stageId, results, citations),
+        summary: String(resp.choices?.[0]?.message?.content ?? ""),
+        model: String(resp.model ?? job.model ?? "sonar-deep-research"),
+        citations,
+        raw: job,
+      },
+    };
+  },
+};
+
+const grokProvider: ResearchProvider = {
+  id: "grok",
+  keyEnv: "GROK_API_KEY",
+  async search(req) {
+    const days = Math.max(1, req.withinDays || 7);
+    const res = await callGrokXSearch({
+      query: req.query,
+      fromDate: isoDaysAgo(days),
+      toDate: isoDaysAgo(0),
+      maxResults: req.searchLimit,
+    });
+    const sources = toStageSources(req.stageId, res.sources, []);
+    return { sources, summary: res.summary, model: res.model, citations: sources.map((s) => s.url), raw: res.raw };
+  },
+};
+
+const youtubeProvider: ResearchProvider = {
+  id: "youtube",
+  keyEnv: "YOUTUBE_API_KEY",
+  async search(req) {
+    // One stage can run several YouTube searches: the query is split on "|".
+    const res = await searchYouTubeTranscripts({
+      queries: req.query.split("|").map((q) => q.trim()).filter(Boolean),
+      withinDays: Math.max(1, req.withinDays || 30),
+    });
+    const sources = toStageSources(req.stageId, res.sources, []);
+    return {
+      sources,
+      summary: res.summary,
+      model: "youtube-transcripts",
+      citations: sources.map((s) => s.url),
+      raw: { videosProcessed: res.videosProcessed, videosWithMatches: res.videosWithMatches },
+    };
+  },
+};
+
+export const RESEARCH_PROVIDERS: Record<ProviderId, ResearchProvider> = {
+  perplexity: perplexityProvider,
+  grok: grokProvider,
+  youtube: youtubeProvider,
+};
+
+type ResearchFixture = {
+  summary?: string;
+  model?: string;
+  sources?: RawSource[];
+};
+
+/**
+ * Replays `<dir>/<stageId>.json`, falling back to `<dir>/<provider>.json`.
+ * A fixture is `{ summary, model, sources: [{ title, url, date, snippet }] }`.
+ */
+export function createFixtureProvider(id: ProviderId, dir: string): ResearchProvider {
+  async function load(stageId: string): Promise<ResearchResult> {
+    const candidates = [`${stageId}.json`, `${id}.json`].map((f) => path.resolve(dir, f));
+    for (const file of candidates) {
+      let text: string;
+      try {
+        text = await readFile(file, "utf8");
+      } catch {
+        continue;
+      }
+      const fixture = JSON.parse(text) as ResearchFixture;
+      const sources = toStageSources(stageId, Array.isArray(fixture.sources) ? fixture.sources : [], []);
+      return {
+        sources,
+        summary: String(fixture.summary ?? ""),
+        model: String(fixture.model ?? `fixture:${id}`),
+        citations: sources.map((s) => s.url),
+        raw: { fixture: path.relative(process.cwd(), file) },
+      };
+    }
+    throw new Error(`No research fixture for stage "${stageId}" (looked for ${candidates.join(", ")}).`);
+  }
+
+  const fixture: ResearchProvider = { id, keyEnv: "", search: (req) => load(req.stageId) };
+  // Keep the live provider's shape so async stages still go through start/poll offline.
+  if (RESEARCH_PROVIDERS[id].start) {
+    fixture.start = async (req) => `fixture:${req.stageId}`;
+    fixture.poll = async (_requestId, req) => ({ status: "completed", result: await load(req.stageId) });
+  }
+  return fixture;
+}
+
+/** Provider for a stage; RESEARCH_FIXTURES_DIR swaps in recorded responses. */
+export function getResearchProvider(id: ProviderId): ResearchProvider {
+  const fixturesDir = (process.env.RESEARCH_FIXTURES_DIR ?? "").trim();
+  if (fixturesDir) return createFixtureProvider(id, fixturesDir);
+  return RESEARCH_PROVIDERS[id];
+}
+
+/** Env var a provider needs, or "" when it is set (or not needed). */
+export function missingProviderKey(id: ProviderId) {
+  const name = getResearchProvider(id).keyEnv;
+  if (!name) return "";
+  return (process.env[name] ?? "").trim() ? "" : name;
+}
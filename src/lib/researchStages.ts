@@ -0,0 +1,77 @@
+import type { PendingStage, StageSource } from "@/lib/blobScoutAsync";
+import { getResearchProvider, type ResearchRequest } from "@/lib/researchProviders";
+
+/**
+ * Runs the stages of a V2 scout job.
+ *
+ * Async providers (Perplexity deep research) are started on `start` and polled on finalize.
+ * Sync providers (Grok, YouTube) run during finalize. `advanceStage` moves a stage one step
+ * forward and never throws: failures are recorded on the stage so only those stages are
+ * retried later.
+ */
+
+export const MAX_STAGE_ATTEMPTS = 3;
+
+export type StageContext = {
+  withinDays: number;
+  searchLimit: number;
+};
+
+function requestFor(stage: PendingStage, ctx: StageContext): ResearchRequest {
+  return { stageId: stage.stageId, query: stage.query, withinDays: ctx.withinDays, searchLimit: ctx.searchLimit };
+}
+
+function completed(stage: PendingStage, sources: StageSource[], summary: string): PendingStage {
+  return { ...stage, status: "completed", sources, summary, error: undefined, completedAt: new Date().toISOString() };
+}
+
+function failed(stage: PendingStage, e: unknown): PendingStage {
+  return { ...stage, status: "failed", error: e instanceof Error ? e.message : String(e) };
+}
+
+/**
+ * Start a stage: async stages get a request id, sync stages stay pending until finalize runs them.
+ */
+export async function startStage(stage: PendingStage, ctx: StageContext): Promise<PendingStage> {
+  const provider = getResearchProvider(stage.provider);
+  if (!provider.start) return stage;
+  const attempts = (stage.attempts ?? 0) + 1;
+  try {
+    const requestId = await provider.start(requestFor(stage, ctx));
+    return { ...stage, requestId, status: "in_progress", attempts, error: undefined };
+  } catch (e) {
+    return failed({ ...stage, attempts }, e);
+  }
+}
+
+/**
+ * Move a stage one step forward:
+ * - pending / failed (with attempts left): start (async) or run (sync)
+ * - in_progress: poll the async job
+ * - completed: unchanged
+ */
+export async function advanceStage(stage: PendingStage, ctx: StageContext): Promise<PendingStage> {
+  if (stage.status === "completed") return stage;
+  if (stage.status === "failed" && (stage.attempts ?? 0) >= MAX_STAGE_ATTEMPTS) return stage;
+
+  const provider = getResearchProvider(stage.provider);
+  if (provider.start && provider.poll) {
+    if (stage.status !== "in_progress" || !stage.requestId) return startStage(stage, ctx);
+    try {
+      const job = await provider.poll(stage.requestId, { stageId: stage.stageId });
+      if (job.status === "failed") return failed(stage, new Error(job.error));
+      if (job.status === "in_progress") return stage;
+      return completed(stage, job.result.sources, job.result.summary);
+    } catch (e) {
+      return failed(stage, e);
+    }
+  }
+
+  const attempts = (stage.attempts ?? 0) + 1;
+  try {
+    const res = await provider.search(requestFor(stage, ctx));
+    return completed({ ...stage, attempts }, res.sources, res.summary);
+  } catch (e) {
+    return failed({ ...stage, attempts }, e);
+  }
+}
@@ -0,0 +1,159 @@
+import type { CaseStudy } from "@/lib/types";
+import type { DatasetStore, StoredObject } from "@/lib/datasetStore";
+import { runIdToMs } from "@/lib/runId";
+import { readSnapshotDocument } from "@/lib/datasetSchema";
+import { linkedArchivePaths } from "@/lib/blobProofArchive";
+
+/**
+ * Retention for stored run artifacts.
+ *
+ * - Published runs (snapshot + manifest + diff): keep the newest `keepSnapshots`, the live run,
+ *   and the newest run of every UTC week for `weeklyDays`; delete the rest.
+ * - Audit artifacts (`weekly-scout/<runId>/…`) and per-run scout jobs: delete after `auditDays`.
+ * - Archived proof pages (`weekly-scout/<runId>/proofs/`): kept while a kept snapshot or a pending review item
+ *   links to them; unlinked ones (rejected, rolled back or merged away) go after `auditDays` like the rest.
+ *   If a kept snapshot can't be read, no archive is deleted.
+ *
+ * Objects whose name isn't a runId (pointers, FX tables, the review queue) are never touched.
+ */
+
+export type RetentionPolicy = {
+  keepSnapshots: number;
+  weeklyDays: number;
+  auditDays: number;
+};
+
+export type RetentionReason = "run" | "audit" | "scout-job" | "proof-archive";
+
+export type RetentionPlan = {
+  policy: RetentionPolicy;
+  liveRunId: string | null;
+  keptRunIds: string[];
+  deletedRunIds: string[];
+  objects: Array<{ pathname: string; size: number; reason: RetentionReason }>;
+  bytes: number;
+};
+
+const SNAPSHOT_PREFIX = "case-studies/snapshots/";
+const RUN_PREFIXES = [
+  "case-studies/live-manifest/",
+  SNAPSHOT_PREFIX,
+  "case-studies/diffs/",
+  "case-studies/search/",
+];
+const AUDIT_PREFIX = "weekly-scout/";
+const SCOUT_JOB_PREFIX = "weekly-scout/perplexity-async/";
+const PROOF_ARCHIVE_RE = /^weekly-scout\/[^/]+\/proofs\//;
+
+const DAY_MS = 86_400_000;
+const WEEK_MS = 7 * DAY_MS;
+// 1970-01-01 was a Thursday; shifting by 3 days makes buckets start on Monday.
+const WEEK_OFFSET_MS = 3 * DAY_MS;
+
+function intFromEnv(name: string, fallback: number) {
+  const n = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export function retentionPolicyFromEnv(): RetentionPolicy {
+  return {
+    keepSnapshots: Math.max(1, intFromEnv("RETENTION_KEEP_SNAPSHOTS", 30)),
+    weeklyDays: intFromEnv("RETENTION_WEEKLY_DAYS", 365),
+    auditDays: intFromEnv("RETENTION_AUDIT_DAYS", 90),
+  };
+}
+
+const runIdOf = (obj: StoredObject, prefix: string) =>
+  decodeURIComponent(obj.pathname.slice(prefix.length).replace(/\.json$/, ""));
+
+/** Which runs to keep: newest N, the live one, and the newest per week inside the weekly window. */
+export function selectKeptRuns(runIds: string[], liveRunId: string | null, policy: RetentionPolicy, nowMs: number) {
+  const newestFirst = [...runIds].sort().reverse();
+  const kept = new Set(newestFirst.slice(0, policy.keepSnapshots));
+  if (liveRunId) kept.add(liveRunId);
+  const weeks = new Set<number>();
+  for (const runId of newestFirst) {
+    const ms = runIdToMs(runId);
+    if (!Number.isFinite(ms)) {
+      kept.add(runId); // not ours to judge
+      continue;
+    }
+    if (ms < nowMs - policy.weeklyDays * DAY_MS) continue;
+    const week = Math.floor((ms + WEEK_OFFSET_MS) / WEEK_MS);
+    if (!weeks.has(week)) {
+      weeks.add(week);
+      kept.add(runId);
+    }
+  }
+  return kept;
+}
+
+/** Archive paths linked from the kept snapshots and `pending`; null when a snapshot can't be read. */
+async function linkedArchives(store: DatasetStore, snapshots: StoredObject[], pending: CaseStudy[]) {
+  const linked = linkedArchivePaths(pending);
+  for (const obj of snapshots) {
+    let items: CaseStudy[] | undefined;
+    try {
+      items = readSnapshotDocument(await store.getJson<unknown>(obj.pathname))?.items;
+    } catch {
+      // treated as unreadable below
+    }
+    if (!items) return null;
+    for (const path of linkedArchivePaths(items)) linked.add(path);
+  }
+  return linked;
+}
+
+export async function planRetention({
+  store,
+  policy,
+  liveRunId,
+  pending = [],
+  now = new Date(),
+}: {
+  store: DatasetStore;
+  policy: RetentionPolicy;
+  liveRunId: string | null;
+  pending?: CaseStudy[]; // review queue items, whose archives are kept
+  now?: Date;
+}): Promise<RetentionPlan> {
+  const nowMs = now.getTime();
+  const objects: RetentionPlan["objects"] = [];
+
+  const runObjects = (await Promise.all(RUN_PREFIXES.map((prefix) => store.list(prefix)))).flatMap((list, i) =>
+    list.map((obj) => ({ obj, runId: runIdOf(obj, RUN_PREFIXES[i]) })),
+  );
+  const runIds = [...new Set(runObjects.map((x) => x.runId))];
+  const kept = selectKeptRuns(runIds, liveRunId, policy, nowMs);
+  // Manifests first: a run without a manifest is invisible even if a later delete fails.
+  for (const { obj, runId } of runObjects) {
+    if (!kept.has(runId)) objects.push({ pathname: obj.pathname, size: obj.size ?? 0, reason: "run" });
+  }
+
+  const keptSnapshots = runObjects.filter((x) => kept.has(x.runId) && x.obj.pathname.startsWith(SNAPSHOT_PREFIX));
+  const linked = await linkedArchives(store, keptSnapshots.map((x) => x.obj), pending);
+  const auditCutoff = nowMs - policy.auditDays * DAY_MS;
+  for (const obj of await store.list(AUDIT_PREFIX)) {
+    const isArchive = PROOF_ARCHIVE_RE.test(obj.pathname);
+    if (isArchive && (!linked || linked.has(obj.pathname))) continue;
+    const isJob = obj.pathname.startsWith(SCOUT_JOB_PREFIX);
+    const runId = isJob ? runIdOf(obj, SCOUT_JOB_PREFIX) : decodeURIComponent(obj.pathname.slice(AUDIT_PREFIX.length).split("/")[0]);
+    const ms = runIdToMs(runId);
+    if (!Number.isFinite(ms) || ms >= auditCutoff) continue;
+    const reason = isArchive ? "proof-archive" : isJob ? "scout-job" : "audit";
+    objects.push({ pathname: obj.pathname, size: obj.size ?? 0, reason });
+  }
+
+  return {
+    policy,
+    liveRunId,
+    keptRunIds: runIds.filter((id) => kept.has(id)).sort().reverse(),
+    deletedRunIds: runIds.filter((id) => !kept.has(id)).sort().reverse(),
+    objects,
+    bytes: objects.reduce((sum, o) => sum + o.size, 0),
+  };
+}
+
+export async function applyRetention(store: DatasetStore, plan: RetentionPlan) {
+  await store.delete(plan.objects.map((o) => o.pathname));
+}
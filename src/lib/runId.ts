@@ -0,0 +1,18 @@
+import { randomBytes } from "node:crypto";
+
+/**
+ * Run ids name snapshots, manifests and audit folders, e.g. `2026-01-28T14-00-00-123Z-9f3c`
+ * (older runs: `2026-01-28T14-00-00Z`). Milliseconds plus a random suffix keep two publishes in the
+ * same second (back-to-back review approvals or edits) from colliding. They sort in time order.
+ */
+export function makeRunId(now = new Date()) {
+  const iso = now.toISOString();
+  const suffix = randomBytes(2).toString("hex");
+  return `${iso.slice(0, 10)}T${iso.slice(11, 19).replaceAll(":", "-")}-${iso.slice(20, 23)}Z-${suffix}`;
+}
+
+/** Epoch ms for a run id from `makeRunId`, or NaN for anything else. */
+export function runIdToMs(runId: string) {
+  const m = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})(?:-(\d{3}))?Z(?:-[0-9a-f]+)?$/.exec(runId);
+  return m ? Date.parse(`${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5] ?? "000"}Z`) : NaN;
+}
@@ -0,0 +1,160 @@
+import type { CaseStudy } from "@/lib/types";
+import { readRunAudit, type RunAudit } from "@/lib/blobCaseStudies";
+import { checkCandidates } from "@/lib/candidateSchema";
+import { countRejectionsByReason, type RejectedCandidate } from "@/lib/candidateSelection";
+import type { ScoutMode } from "@/lib/scoutConfig";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import type { ReviewMode } from "@/lib/blobReviewQueue";
+import { createArchiveProofFetcher } from "@/lib/blobProofArchive";
+import { planDiscoveryRun, type DiscoveryPipeline } from "@/lib/discoveryRun";
+
+/**
+ * Re-runs a past pipeline run through the current post-extraction steps (`planDiscoveryRun`).
+ *
+ * Inputs come from the run's audit artifacts: the model candidates (`claude.json`), the
+ * research sources with their stages, the run parameters and review mode (`run.json`) and the
+ * dataset the run merged into (its snapshot minus what it added). Proofs are checked against
+ * the pages the run archived, so nothing is fetched. The result says which items the current
+ * rules would publish or queue for review compared with what the run actually did. The run's
+ * review queue isn't recorded, so items that were already pending then are not excluded.
+ */
+
+type ReplaySource = { title: string; url: string; date?: string; snippet?: string; stageId?: string };
+
+type ReplayRunLog = {
+  runDate?: string;
+  scout?: {
+    pipeline?: string;
+    mode?: ScoutMode;
+    withinDays?: number;
+    find?: number;
+    multiStage?: boolean;
+  };
+  perplexity?: { model?: string; searchResults?: ReplaySource[] };
+  extractor?: { model?: string };
+  generated?: {
+    reviewMode?: ReviewMode;
+    proofChecks?: { skipped?: boolean };
+    queuedForReview?: string[];
+    possibleDuplicates?: Array<{ id: string }>;
+    added?: Array<Pick<CaseStudy, "id" | "title" | "proofSources">>;
+  };
+};
+
+export type ReplayItem = { id: string; title: string; urls: string[] };
+
+export type RunReplay =
+  | { runId: string; ok: false; reason: string }
+  | {
+      runId: string;
+      ok: true;
+      candidateCount: number;
+      actual: ReplayItem[];
+      replayed: ReplayItem[];
+      wouldAdd: ReplayItem[];
+      wouldRemove: Array<ReplayItem & { reason?: string; detail?: string }>;
+      rejectedByReason: ReturnType<typeof countRejectionsByReason>;
+    };
+
+function toItem(cs: Pick<CaseStudy, "id" | "title" | "proofSources">): ReplayItem {
+  return { id: cs.id, title: cs.title, urls: (cs.proofSources ?? []).map((s) => s.url) };
+}
+
+/** `claude.json` is a plain array in older runs and `{ candidates, invalid }` since schema checks. */
+function rawCandidates(claudeRaw: unknown): unknown[] | null {
+  if (Array.isArray(claudeRaw)) return claudeRaw;
+  if (!claudeRaw || typeof claudeRaw !== "object") return null;
+  const { candidates, invalid } = claudeRaw as { candidates?: unknown; invalid?: unknown };
+  if (!Array.isArray(candidates)) return null;
+  const invalidItems = Array.isArray(invalid)
+    ? invalid.map((x) => (x && typeof x === "object" ? (x as { candidate?: unknown }).candidate : undefined))
+    : [];
+  return [...candidates, ...invalidItems.filter((x) => x !== undefined)];
+}
+
+function explainRemoval(item: ReplayItem, rejected: RejectedCandidate[]) {
+  const urls = new Set(item.urls.map(canonicalizeUrl));
+  return rejected.find((r) => r.title === item.title || r.urls.some((u) => urls.has(canonicalizeUrl(u))));
+}
+
+export async function replayRunAudit(audit: RunAudit): Promise<RunReplay> {
+  const { runId } = audit;
+  const runLog = (audit.runLog ?? null) as ReplayRunLog | null;
+  const candidates = rawCandidates(audit.claudeRaw);
+  if (!runLog) return { runId, ok: false, reason: "run.json is missing." };
+  if (!candidates) return { runId, ok: false, reason: "claude.json is missing (not a discovery run)." };
+  if (!audit.snapshot) return { runId, ok: false, reason: "Snapshot is missing." };
+
+  const generated = runLog.generated ?? {};
+  const addedItems = (audit.added ?? generated.added ?? []).map(toItem);
+  const addedIds = new Set(addedItems.map((x) => x.id));
+  // Queued items and possible duplicates both went to the review queue.
+  const queuedIds = [...(generated.queuedForReview ?? []), ...(generated.possibleDuplicates ?? []).map((d) => d.id)];
+  const actual = [...addedItems, ...queuedIds.map((id) => ({ id, title: "", urls: [] }))];
+  // The dataset as the run saw it: its snapshot without the items it added.
+  const existing = audit.snapshot.filter((x) => !addedIds.has(x.id));
+
+  const scout = runLog.scout ?? {};
+  const runDate = runLog.runDate ?? runId.slice(0, 10);
+  const withinDays = scout.withinDays ?? 0;
+  const cutoffMs = withinDays ? new Date(`${runDate}T00:00:00Z`).getTime() - withinDays * 86_400_000 : 0;
+  const pipeline: DiscoveryPipeline = scout.pipeline === "parse-new-stories" ? scout.pipeline : "weekly-update";
+
+  const checked = checkCandidates(candidates);
+  const plan = await planDiscoveryRun({
+    pipeline,
+    runId,
+    runDate,
+    scout: { mode: scout.mode ?? "speculation", withinDays, cutoffMs, find: scout.find ?? 10 },
+    sources: runLog.perplexity?.searchResults ?? [],
+    candidates: checked.valid,
+    invalid: checked.invalid,
+    existing,
+    pending: [],
+    reviewMode: generated.reviewMode ?? "off",
+    fetcher: generated.proofChecks?.skipped ? null : createArchiveProofFetcher(runId),
+    archive: false,
+    model: runLog.extractor?.model ?? "",
+    researchModel: runLog.perplexity?.model ?? "",
+  });
+  const { rejected } = plan;
+
+  // Progress updates to existing entries are not additions; possible duplicates are queued.
+  const duplicates = plan.entities.duplicates.map((d) => d.caseStudy);
+  const replayed = [...plan.added, ...plan.queuedForReview, ...duplicates].map(toItem);
+  const replayedIds = new Set(replayed.map((x) => x.id));
+  const actualIds = new Set(actual.map((x) => x.id));
+  return {
+    runId,
+    ok: true,
+    candidateCount: candidates.length,
+    actual,
+    replayed,
+    wouldAdd: replayed.filter((x) => !actualIds.has(x.id)),
+    wouldRemove: actual
+      .filter((x) => !replayedIds.has(x.id))
+      .map((x) => {
+        const why = explainRemoval(x, rejected);
+        return why ? { ...x, reason: why.reason, detail: why.detail } : x;
+      }),
+    rejectedByReason: countRejectionsByReason(rejected),
+  };
+}
+
+export async function replayRun(runId: string): Promise<RunReplay> {
+  return replayRunAudit(await readRunAudit(runId));
+}
+
+/** Human-readable diff, one line per change. */
+export function formatRunReplay(r: RunReplay): string[] {
+  if (!r.ok) return [`${r.runId}: skipped (${r.reason})`];
+  const lines = [
+    `${r.runId}: ${r.candidateCount} candidates, actually added ${r.actual.length}, replay adds ${r.replayed.length}`,
+  ];
+  for (const x of r.wouldAdd) lines.push(`  + ${x.id}  ${x.title}`);
+  for (const x of r.wouldRemove) {
+    lines.push(`  - ${x.id}  ${x.title}${x.reason ? `  [${x.reason}] ${x.detail ?? ""}` : ""}`.trimEnd());
+  }
+  if (!r.wouldAdd.length && !r.wouldRemove.length) lines.push("  (no change)");
+  return lines;
+}
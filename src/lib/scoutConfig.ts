@@ -1,10 +1,12 @@
+import { buildGrokXSearchQuery } from "@/lib/grokSearch";
+
 export type ScoutMode = "strict" | "speculation";
 
 /**
  * Bump this when you change default prompts/query logic.
  * Logged into Blob run logs for auditability and rollback.
  */
-export const SCOUT_CONFIG_VERSION = 3 as const;
+export const SCOUT_CONFIG_VERSION = 4 as const;
 
 function compact(s: string) {
   return s.replace(/\s+/g, " ").trim();
@@ -21,7 +23,7 @@ export function buildDefaultScoutQuery({
 
   // Keep < 600 chars (enforced by route handlers).
   return compact(`
-    Find NEW, specific real-world stories ${window} where an AI agent, AI tool, AI SaaS, AI automation, or AI-powered product made money with an explicit $ amount.
+    Find NEW, specific real-world stories ${window} where an AI agent, AI tool, AI SaaS, AI automation, or AI-powered product made money with an explicit money amount (any currency, incl. crypto payouts).
     Include: revenue, MRR, ARR, profit, prize payouts, bounties, sale price, freelance/consulting income using AI.
     Must be about a specific project, company, person, or product (not market size, not trends).
     Keywords: MRR, ARR, revenue, profit, bounty, prize, payout, winner, sold for, income, earnings report.
@@ -38,13 +40,13 @@ export function buildClaudeSystemPrompt({ mode }: { mode: ScoutMode }) {
       "",
       "STRICT RULES:",
       "- Output must be a single JSON array ONLY (no markdown, no prose).",
-      "- Each entry MUST describe a SPECIFIC AI agent, AI tool, AI SaaS, or AI-powered product making money/profit with a specific $ amount.",
+      "- Each entry MUST describe a SPECIFIC AI agent, AI tool, AI SaaS, or AI-powered product making money/profit with a specific money amount (any currency; keep the original currency symbol/code).",
       "- EXCLUDE: fundraising/valuations/grants, big-company quarterly earnings (e.g. Alphabet/Microsoft/Atlassian Q4 revenue), market size forecasts, global spending projections. We want SPECIFIC products/projects, not corporate earnings.",
       "- Prefer VERIFIED entries with 2+ proofSources.",
       "- Speculation entries may have 1 proofSource (only if you cannot find a second credible source).",
       "- Prefer URLs from the provided sources list. You may also include product website URLs (set kind: 'website') mentioned in the summary/report.",
-      "- At least one proofSources.excerpt MUST contain the $ amount and MUST be copied verbatim from a provided snippet (no paraphrasing in excerpts).",
-      "- Title MUST include a $ amount (include '$' character).",
+      "- At least one proofSources.excerpt MUST contain the money amount and MUST be copied verbatim from a provided snippet (no paraphrasing in excerpts).",
+      "- Title MUST include the money amount in its original currency (e.g. '$5k', '€2,500', '2.5 ETH'). Do not convert currencies.",
       "- If the sources/snippets are too thin to be confident, set status to 'speculation' and explicitly state the proof gap in the description.",
       "- Do NOT use Facebook/TikTok/Instagram/Discord/Telegram as the only proof source. YouTube and X/Twitter indie maker posts are allowed with corroboration from a non-social source.",
       "",
@@ -62,12 +64,12 @@ export function buildClaudeSystemPrompt({ mode }: { mode: ScoutMode }) {
     "",
     "RULES (SPECULATION MODE):",
     "- Output must be a single JSON array ONLY (no markdown, no prose).",
-    "- Each entry MUST describe a SPECIFIC AI agent, AI tool, AI SaaS, or AI-powered product making money/profit with a specific $ amount.",
+    "- Each entry MUST describe a SPECIFIC AI agent, AI tool, AI SaaS, or AI-powered product making money/profit with a specific money amount (any currency; keep the original currency symbol/code).",
     "- EXCLUDE: fundraising/valuations/grants, big-company quarterly earnings (e.g. Alphabet/Microsoft/Atlassian Q4 revenue), market size forecasts, global spending projections. We want SPECIFIC products/projects, not corporate earnings.",
     "- Prefer 2+ proofSources when possible; 1 proofSource is allowed for speculation when you cannot find a second credible source.",
     "- Prefer URLs from the provided sources list. You may also include product website URLs (set kind: 'website') mentioned in the summary/report.",
-    "- If you cannot include a verbatim proofSources.excerpt containing the $ amount, still include the best available excerpt/snippet and clearly state the proof gap in the description.",
-    "- Title SHOULD include a $ amount when the sources indicate one (it may be normalized downstream).",
+    "- If you cannot include a verbatim proofSources.excerpt containing the money amount, still include the best available excerpt/snippet and clearly state the proof gap in the description.",
+    "- Title SHOULD include the money amount (original currency) when the sources indicate one (it may be normalized downstream).",
     "- Do NOT use Facebook/TikTok/Instagram/Discord/Telegram as the only proof source. YouTube and X/Twitter indie maker posts are allowed with corroboration.",
     "",
     "CaseStudy schema:",
@@ -106,3 +108,102 @@ export function buildClaudeUserPrompt({
   ].join("\n");
 }
 
+export type ResearchStageConfig = {
+  stageId: string;
+  provider: "perplexity" | "grok" | "youtube";
+  /** Query for this stage (YouTube splits it on "|" into several searches). */
+  buildQuery: (ctx: { windowDays: number }) => string;
+};
+
+/**
+ * Multi-stage research used by find-new-case-studies. Order is priority: when two stages
+ * return the same URL, the earlier stage keeps it.
+ */
+export const DEFAULT_RESEARCH_STAGES: ResearchStageConfig[] = [
+  {
+    stageId: "grok-x-search",
+    provider: "grok",
+    buildQuery: () => buildGrokXSearchQuery(),
+  },
+  {
+    stageId: "youtube-podcasts",
+    provider: "youtube",
+    buildQuery: () =>
+      [
+        "AI startup founder revenue MRR interview",
+        "indie hacker AI app revenue podcast",
+        "AI agent business making money podcast",
+      ].join("|"),
+  },
+  {
+    stageId: "hackathon",
+    provider: "perplexity",
+    buildQuery: ({ windowDays }) =>
+      compact(`
+        AI agent hackathon and competition winners announced in the last ${windowDays} days with cash prize amounts
+        (Devpost, DoraHacks, Kaggle, lablab.ai, ETHGlobal bounties). Name the winning project and the prize.
+      `),
+  },
+  {
+    stageId: "indie-revenue",
+    provider: "perplexity",
+    buildQuery: ({ windowDays }) =>
+      compact(`
+        Indie makers and solo founders sharing revenue, MRR or sale prices of AI products in the last ${windowDays} days
+        (IndieHackers, ProductHunt, HackerNews, personal blogs, acquire.com listings). Exclude fundraising.
+      `),
+  },
+  {
+    stageId: "youtube-case-study",
+    provider: "perplexity",
+    buildQuery: ({ windowDays }) =>
+      compact(`
+        YouTube videos from the last ${windowDays} days where a creator shows revenue from an AI agent, AI tool or
+        automation business with a specific money amount. Return the video URL.
+      `),
+  },
+  {
+    stageId: "news-roundup",
+    provider: "perplexity",
+    buildQuery: ({ windowDays }) => buildDefaultScoutQuery({ windowDays }),
+  },
+];
+
+/**
+ * Resolve the stage list from `?stages=a,b` / SCOUT_STAGES (comma-separated ids). Unknown ids are ignored.
+ */
+export function selectResearchStages(spec: string) {
+  const ids = spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (!ids.length) return DEFAULT_RESEARCH_STAGES;
+  return DEFAULT_RESEARCH_STAGES.filter((s) => ids.includes(s.stageId));
+}
+
+/**
+ * Follow-up prompt for the single repair round-trip: the invalid items plus their field errors.
+ */
+export function buildCandidateRepairPrompt({
+  originalPrompt,
+  invalidItems,
+  errors,
+}: {
+  originalPrompt: string;
+  invalidItems: unknown[];
+  errors: string[];
+}) {
+  return [
+    originalPrompt,
+    "",
+    "Your previous answer contained CaseStudy objects that do not match the schema:",
+    JSON.stringify(invalidItems, null, 2),
+    "",
+    "Errors (item N = position in the list above):",
+    ...errors.map((e) => `- ${e}`),
+    "",
+    "Task:",
+    "- Return corrected versions of ONLY these items, fixing every error listed.",
+    "- Do not invent facts: drop an item rather than guessing a missing field.",
+  ].join("\n");
+}
@@ -0,0 +1,196 @@
+import type { CaseStudy } from "@/lib/types";
+import { primaryAmount, primaryUsdValue } from "@/lib/money";
+
+/**
+ * Search index and facet counts for a dataset version.
+ *
+ * Built once per publish and stored as `case-studies/search/<runId>.json`, so the API doesn't rescan
+ * every entry per request. Pure module: the table builds its own postings from the rows it already has,
+ * so the page only ships the facet counts.
+ */
+
+export type Posting = [id: string, weight: number];
+
+export type FacetCounts = Record<string, number>;
+
+export type DatasetFacets = {
+  tags: FacetCounts;
+  mechanisms: FacetCounts;
+  status: FacetCounts;
+  year: FacetCounts;
+  amount: FacetCounts; // keys from AMOUNT_BUCKETS
+};
+
+export type SearchArtifactsV1 = {
+  version: 1;
+  runId: string | null;
+  builtAt: string; // ISO
+  docCount: number;
+  /** token -> entries containing it, with the summed field weights */
+  postings: Record<string, Posting[]>;
+  facets: DatasetFacets;
+};
+
+export type SearchHit = { id: string; score: number };
+
+const FIELD_WEIGHTS = {
+  title: 5,
+  tags: 3,
+  profitMechanisms: 3,
+  summary: 2,
+  description: 1,
+  proofSources: 1,
+} as const;
+
+// Prefix matches (e.g. "hack" -> "hackathon") count for less than whole tokens.
+const PREFIX_FACTOR = 0.5;
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it its of on or that the this to was were with".split(" "),
+);
+
+/** Headline USD amount buckets (upper bound exclusive). */
+export const AMOUNT_BUCKETS: Array<{ key: string; max: number }> = [
+  { key: "under-1k", max: 1_000 },
+  { key: "1k-10k", max: 10_000 },
+  { key: "10k-100k", max: 100_000 },
+  { key: "100k-1m", max: 1_000_000 },
+  { key: "1m-plus", max: Infinity },
+];
+
+export function amountBucket(cs: CaseStudy): string {
+  if (!primaryAmount(cs)) return "none";
+  const usd = primaryUsdValue(cs);
+  return AMOUNT_BUCKETS.find((b) => usd < b.max)?.key ?? "none";
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function fieldTexts(cs: CaseStudy): Record<keyof typeof FIELD_WEIGHTS, string> {
+  return {
+    title: cs.title,
+    tags: (cs.tags ?? []).join(" "),
+    profitMechanisms: (cs.profitMechanisms ?? []).join(" "),
+    summary: cs.summary,
+    description: cs.description,
+    proofSources: (cs.proofSources ?? []).map((s) => `${s.label} ${s.excerpt ?? ""}`).join(" "),
+  };
+}
+
+const bump = (counts: FacetCounts, key: string) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+export function buildFacets(items: CaseStudy[]): DatasetFacets {
+  const facets: DatasetFacets = { tags: {}, mechanisms: {}, status: {}, year: {}, amount: {} };
+  for (const cs of items) {
+    if (cs.retracted) continue;
+    for (const tag of new Set(cs.tags ?? [])) bump(facets.tags, tag);
+    for (const m of new Set(cs.profitMechanisms ?? [])) bump(facets.mechanisms, m);
+    bump(facets.status, cs.status ?? "speculation");
+    bump(facets.year, cs.date.slice(0, 4));
+    bump(facets.amount, amountBucket(cs));
+  }
+  return facets;
+}
+
+/** Lowercased text of every field, proof URLs and ids included, for substring and wildcard matching. */
+export function caseStudySearchText(cs: CaseStudy) {
+  const proof = (cs.proofSources ?? [])
+    .map((s) => `${s.label ?? ""} ${s.url ?? ""} ${s.kind ?? ""} ${s.excerpt ?? ""}`)
+    .join(" ");
+  return [
+    cs.id,
+    cs.date,
+    cs.title,
+    cs.summary,
+    cs.description,
+    ...(cs.tags ?? []),
+    ...(cs.profitMechanisms ?? []),
+    proof,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+export function buildPostings(items: CaseStudy[]): Record<string, Posting[]> {
+  const postings: Record<string, Posting[]> = {};
+  for (const cs of items) {
+    if (cs.retracted) continue; // reachable by id only
+    const weights = new Map<string, number>();
+    const texts = fieldTexts(cs);
+    for (const field of Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>) {
+      // Each field counts once per token, so long descriptions don't drown out titles.
+      for (const token of new Set(tokenize(texts[field]))) {
+        weights.set(token, (weights.get(token) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+    for (const [token, weight] of weights) (postings[token] ??= []).push([cs.id, weight]);
+  }
+  return postings;
+}
+
+export function buildSearchArtifacts(items: CaseStudy[], runId: string | null): SearchArtifactsV1 {
+  return {
+    version: 1,
+    runId,
+    builtAt: new Date().toISOString(),
+    docCount: items.filter((cs) => !cs.retracted).length,
+    postings: buildPostings(items),
+    facets: buildFacets(items),
+  };
+}
+
+/**
+ * Ranked search: every query token must match an indexed token exactly or as a prefix.
+ * Scores add up the field weights of the matches. Entries of `items` the index misses but whose
+ * text contains the whole query (a proof URL, part of a word) follow with score 0.
+ */
+export function searchCaseStudies(
+  index: Pick<SearchArtifactsV1, "postings">,
+  query: string,
+  items: CaseStudy[] = [],
+): SearchHit[] {
+  const ranked = rankByIndex(index, query);
+  const needle = query.trim().toLowerCase();
+  if (!needle) return ranked;
+  const seen = new Set(ranked.map((hit) => hit.id));
+  const substring = items
+    .filter((cs) => !cs.retracted && !seen.has(cs.id) && caseStudySearchText(cs).includes(needle))
+    .map((cs) => ({ id: cs.id, score: 0 }));
+  return [...ranked, ...substring];
+}
+
+function rankByIndex(index: Pick<SearchArtifactsV1, "postings">, query: string): SearchHit[] {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) return [];
+  const vocabulary = Object.keys(index.postings);
+
+  let scores: Map<string, number> | null = null;
+  for (const term of terms) {
+    const termScores = new Map<string, number>();
+    for (const token of vocabulary) {
+      if (!token.startsWith(term)) continue;
+      const factor = token === term ? 1 : PREFIX_FACTOR;
+      for (const [id, weight] of index.postings[token]) {
+        termScores.set(id, Math.max(termScores.get(id) ?? 0, weight * factor));
+      }
+    }
+    const next = new Map<string, number>();
+    for (const [id, score] of termScores) {
+      if (!scores || scores.has(id)) next.set(id, (scores?.get(id) ?? 0) + score);
+    }
+    scores = next;
+    if (!scores.size) break;
+  }
+
+  return [...(scores ?? new Map<string, number>())]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
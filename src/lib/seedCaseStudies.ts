@@ -0,0 +1,14 @@
+import rawSeed from "@/data/case-studies.json";
+import type { CaseStudy } from "@/lib/types";
+import { readSnapshotDocument } from "@/lib/datasetSchema";
+
+let seed: CaseStudy[] | null = null;
+
+/**
+ * Entries from `src/data/case-studies.json` (the fallback when there is no live dataset),
+ * migrated to the current schema if the file is older.
+ */
+export function seedCaseStudies(): CaseStudy[] {
+  seed ??= readSnapshotDocument(rawSeed as unknown)?.items ?? [];
+  return seed;
+}
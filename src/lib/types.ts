@@ -9,15 +9,98 @@ export type ProofSourceKind =
   | "paper"
   | "other";
 
+/** `client-rendered`: the page loaded but its host renders content with JavaScript, so a miss proves nothing. */
+export type ProofCheckStatus = "found" | "not-found" | "client-rendered" | "fetch-failed";
+
+/** Result of fetching a proof URL and looking for its excerpt on the page. */
+export type ProofCheck = {
+  status: ProofCheckStatus;
+  fetchedAt: string; // ISO
+  score: number; // 0-1, share of the excerpt found on the page
+  amountFound: boolean; // every money amount in the excerpt appears on the page
+  httpStatus?: number;
+  error?: string;
+};
+
+/** Copy of the proof page stored when the entry was accepted (see `src/lib/blobProofArchive.ts`). */
+export type ProofArchiveRef = {
+  runId: string; // run whose audit artifacts hold the copy
+  key: string;
+  archivedAt: string; // ISO
+};
+
 export type ProofSource = {
   label: string;
   url: string;
   kind?: ProofSourceKind;
   excerpt?: string;
+  stageId?: string; // research stage that surfaced this URL (e.g. "grok-x-search")
+  check?: ProofCheck; // set when the pipeline verified `excerpt` against the page
+  archive?: ProofArchiveRef;
 };
 
 export type CaseStudyStatus = "verified" | "speculation";
 
+export type MoneyPeriod = "one-off" | "monthly" | "annual";
+
+export type MoneyMetric = "revenue" | "mrr" | "arr" | "profit" | "prize" | "bounty" | "sale-price";
+
+export type CurrencyCode =
+  | "USD"
+  | "EUR"
+  | "GBP"
+  | "JPY"
+  | "CNY"
+  | "INR"
+  | "USDC"
+  | "USDT"
+  | "ETH"
+  | "BTC"
+  | "SOL";
+
+export type MoneyAmount = {
+  value: number; // in `currency`, as reported by the source
+  currency: CurrencyCode;
+  period: MoneyPeriod;
+  metric: MoneyMetric;
+  text: string; // amount as written in the source (e.g. "$5,120 MRR", "€2.5k")
+  sourceUrl?: string; // proofSources[].url whose excerpt contains `text`
+  usdValue?: number; // `value` converted with the offline FX table
+  fxVersion?: string; // src/data/fx-rates.json version used for usdValue
+};
+
+/** Set when an entry is withdrawn; it stays reachable by id but is hidden from listings. */
+export type Retraction = {
+  reason: string;
+  editor: string;
+  retractedAt: string; // ISO
+  mergedInto?: string; // id of the entry this duplicate was merged into
+};
+
+export type RevisionOp = "approve" | "patch" | "retract" | "merge" | "update";
+
+/** One change to an entry after it was found (review approval, admin edit or progress update). */
+export type Revision = {
+  op: RevisionOp;
+  runId: string; // run that published the revision
+  at: string; // ISO
+  editor?: string;
+  reason?: string;
+  fields?: string[]; // patch: fields that changed
+  mergedFrom?: string; // merge: id of the duplicate folded into this entry
+};
+
+/** Where an entry came from and how it changed since. */
+export type Provenance = {
+  runId?: string; // scout run that produced the entry (absent: seed file or added before provenance)
+  pipeline?: string; // e.g. "weekly-update", "parse-new-stories"
+  model?: string; // extractor model that wrote the entry
+  researchModel?: string; // research provider model that surfaced the sources
+  scoutConfigVersion?: number; // SCOUT_CONFIG_VERSION of the run
+  stageIds?: string[]; // research stages its proof sources came from
+  history?: Revision[];
+};
+
 export type CaseStudy = {
   id: string;
   date: string; // ISO 8601 date (YYYY-MM-DD)
@@ -27,6 +110,9 @@ export type CaseStudy = {
   profitMechanisms: string[];
   tags: string[];
   proofSources: ProofSource[];
+  amounts?: MoneyAmount[]; // first entry is the headline amount
   status?: CaseStudyStatus;
+  retracted?: Retraction;
+  provenance?: Provenance;
 };
 